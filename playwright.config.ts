@@ -0,0 +1,11 @@
+import { defineConfig } from '@playwright/test';
+
+/**
+ * Unit tests for the pure modules; they run in Node and need no browser
+ */
+export default defineConfig({
+  testDir: './src',
+  testMatch: '**/*.test.ts',
+  forbidOnly: !!process.env.CI,
+  reporter: process.env.CI ? 'dot' : 'list',
+});
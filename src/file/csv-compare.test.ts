@@ -0,0 +1,144 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compareCSV, compareCSVRecords } from './csv-compare';
+import { writeXLSX } from './xlsx';
+
+test.describe('compareCSVRecords', () => {
+  test('reports equal data', () => {
+    const rows = [{ id: '1', total: '10' }];
+    const result = compareCSVRecords(rows, rows);
+
+    expect(result.isEqual).toBe(true);
+    expect(result.summary).toBe('CSV data matches');
+  });
+
+  test('matches rows by key columns and reports added, removed and changed rows', () => {
+    const expected = [
+      { id: '1', name: 'Ann', total: '10' },
+      { id: '2', name: 'Bob', total: '20' },
+    ];
+    const actual = [
+      { id: '2', name: 'Bob', total: '25' },
+      { id: '3', name: 'Eve', total: '30' },
+    ];
+    const result = compareCSVRecords(actual, expected, { keyColumns: ['id'] });
+
+    expect(result.isEqual).toBe(false);
+    expect(result.added).toEqual([{ id: '3', name: 'Eve', total: '30' }]);
+    expect(result.removed).toEqual([{ id: '1', name: 'Ann', total: '10' }]);
+    expect(result.changed).toEqual([{
+      key: 'id=2',
+      actual: actual[0],
+      expected: expected[1],
+      cells: [{ column: 'total', actual: '25', expected: '20' }],
+    }]);
+    expect(result.summary.split('\n')).toEqual([
+      'CSV data differs: 1 added, 1 removed, 1 changed',
+      '+ id="3"',
+      '- id="1"',
+      '~ [id=2] total: expected "20", got "25"',
+    ]);
+  });
+
+  test('matches rows by position without key columns', () => {
+    const result = compareCSVRecords([{ a: 'x' }, { a: 'y' }], [{ a: 'x' }, { a: 'z' }]);
+    expect(result.changed.map((diff) => diff.key)).toEqual(['row 2']);
+  });
+
+  test('keeps duplicate keys apart by occurrence', () => {
+    const result = compareCSVRecords(
+      [{ id: '1', v: 'a' }, { id: '1', v: 'b' }],
+      [{ id: '1', v: 'a' }, { id: '1', v: 'c' }],
+      { keyColumns: ['id'] }
+    );
+    expect(result.changed.map((diff) => diff.key)).toEqual(['id=1#2']);
+  });
+
+  test('reports missing and extra columns unless ignored', () => {
+    const result = compareCSVRecords([{ id: '1', extra: 'x' }], [{ id: '1', gone: 'y' }]);
+    expect(result.missingColumns).toEqual(['gone']);
+    expect(result.extraColumns).toEqual(['extra']);
+
+    const ignored = compareCSVRecords([{ id: '1', extra: 'x' }], [{ id: '1', gone: 'y' }], {
+      ignoreColumns: ['extra', 'gone'],
+    });
+    expect(ignored.isEqual).toBe(true);
+  });
+
+  test('compares numbers as text unless a tolerance is given', () => {
+    const actual = [{ total: '$1,000.004' }];
+    const expected = [{ total: '1000' }];
+
+    expect(compareCSVRecords(actual, expected).isEqual).toBe(false);
+    expect(compareCSVRecords(actual, expected, { numericTolerance: 0.01 }).isEqual).toBe(true);
+    expect(compareCSVRecords([{ total: '1002' }], expected, { numericTolerance: 1 }).isEqual).toBe(false);
+  });
+
+  test('normalizes cells when asked', () => {
+    const actual = [{ name: '  JOSÉ  Smith ' }];
+    const expected = [{ name: 'jose smith' }];
+
+    expect(compareCSVRecords(actual, expected).isEqual).toBe(false);
+    expect(compareCSVRecords(actual, expected, { normalize: true }).isEqual).toBe(true);
+    expect(compareCSVRecords([{ code: 'ab-1' }], [{ code: 'AB1' }], {
+      normalize: (value) => value.replace(/-/g, '').toUpperCase(),
+    }).isEqual).toBe(true);
+  });
+
+  test('stringifies non-string values before comparing', () => {
+    const result = compareCSVRecords(
+      [{ n: 1, flag: true, empty: null, when: new Date('2024-01-02T00:00:00Z') }],
+      [{ n: '1', flag: 'true', empty: '', when: '2024-01-02T00:00:00.000Z' }]
+    );
+    expect(result.isEqual).toBe(true);
+  });
+
+  test('limits the summary to twenty rows', () => {
+    const actual = Array.from({ length: 25 }, (_, i) => ({ id: String(i) }));
+    const lines = compareCSVRecords(actual, [{ id: 'gone' }], { keyColumns: ['id'] }).summary.split('\n');
+
+    expect(lines).toHaveLength(22);
+    expect(lines[21]).toBe('... and 6 more');
+  });
+});
+
+test.describe('compareCSV', () => {
+  let dir: string;
+
+  test.beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'csv-compare-test-'));
+  });
+
+  test.afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  test('compares a CSV file against records', async () => {
+    const file = path.join(dir, 'report.csv');
+    await fs.promises.writeFile(file, 'id;total\n1;10\n');
+
+    const result = await compareCSV(file, [{ id: '1', total: '10' }], { delimiter: ';' });
+    expect(result.isEqual).toBe(true);
+  });
+
+  test('passes sheet, headerRow and dateFormat through to .xlsx sources', async () => {
+    const file = path.join(dir, 'report.xlsx');
+    await writeXLSX(file, {
+      Summary: [{ note: 'ignore me' }],
+      Orders: [
+        { title: 'Orders export', date: '' },
+        { title: 'id', date: 'date' },
+        { title: 1, date: new Date(2024, 0, 2) },
+      ],
+    }, { hasHeaders: false });
+
+    const result = await compareCSV(file, [{ id: '1', date: '02/01/2024' }], {
+      sheet: 'Orders',
+      headerRow: 2,
+      dateFormat: 'DD/MM/YYYY',
+    });
+    expect(result.summary).toBe('CSV data matches');
+  });
+});
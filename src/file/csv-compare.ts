@@ -0,0 +1,229 @@
+/**
+ * CSV comparison utilities
+ */
+
+import type {
+  CSVSource,
+  CSVCompareOptions,
+  CSVCellDiff,
+  CSVRowDiff,
+  CSVComparisonResult,
+} from '../types';
+import { readCSV } from './csv';
+import { readXLSX } from './xlsx';
+import { cleanForComparison } from '../string/normalize';
+import { cleanNumeric } from '../string/format';
+import { PATTERNS } from '../string/regex';
+
+const MAX_SUMMARY_ROWS = 20;
+
+/**
+ * Compare two CSV sources (file paths or arrays of records)
+ * Paths ending in .xlsx are read with readXLSX (see the `sheet` option).
+ * Reports added, removed and changed rows with cell-level diffs.
+ */
+export async function compareCSV(
+  actual: CSVSource,
+  expected: CSVSource,
+  options: CSVCompareOptions = {}
+): Promise<CSVComparisonResult> {
+  const [actualRows, expectedRows] = await Promise.all([
+    loadRows(actual, options),
+    loadRows(expected, options),
+  ]);
+  return compareCSVRecords(actualRows, expectedRows, options);
+}
+
+/**
+ * Compare two arrays of records synchronously
+ */
+export function compareCSVRecords(
+  actual: Record<string, unknown>[],
+  expected: Record<string, unknown>[],
+  options: CSVCompareOptions = {}
+): CSVComparisonResult {
+  const { keyColumns = [], ignoreColumns = [] } = options;
+  const actualRows = actual.map(toStringRecord);
+  const expectedRows = expected.map(toStringRecord);
+
+  const actualColumns = collectColumns(actualRows);
+  const expectedColumns = collectColumns(expectedRows);
+  const missingColumns = expectedColumns.filter((c) => !actualColumns.includes(c) && !ignoreColumns.includes(c));
+  const extraColumns = actualColumns.filter((c) => !expectedColumns.includes(c) && !ignoreColumns.includes(c));
+  const compareColumns = expectedColumns.filter((c) => actualColumns.includes(c) && !ignoreColumns.includes(c));
+
+  const actualByKey = indexRows(actualRows, keyColumns);
+  const expectedByKey = indexRows(expectedRows, keyColumns);
+
+  const added: Record<string, string>[] = [];
+  const removed: Record<string, string>[] = [];
+  const changed: CSVRowDiff[] = [];
+
+  for (const [key, expectedRow] of expectedByKey) {
+    const actualRow = actualByKey.get(key);
+    if (!actualRow) {
+      removed.push(expectedRow);
+      continue;
+    }
+
+    const cells: CSVCellDiff[] = [];
+    for (const column of compareColumns) {
+      if (!cellsEqual(actualRow[column], expectedRow[column], column, options)) {
+        cells.push({ column, actual: actualRow[column], expected: expectedRow[column] });
+      }
+    }
+    if (cells.length > 0) {
+      changed.push({ key, actual: actualRow, expected: expectedRow, cells });
+    }
+  }
+
+  for (const [key, actualRow] of actualByKey) {
+    if (!expectedByKey.has(key)) {
+      added.push(actualRow);
+    }
+  }
+
+  const result = {
+    isEqual:
+      added.length === 0 &&
+      removed.length === 0 &&
+      changed.length === 0 &&
+      missingColumns.length === 0 &&
+      extraColumns.length === 0,
+    added,
+    removed,
+    changed,
+    missingColumns,
+    extraColumns,
+  };
+
+  return { ...result, summary: formatSummary(result, keyColumns) };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function loadRows(source: CSVSource, options: CSVCompareOptions): Promise<Record<string, unknown>[]> {
+  if (typeof source === 'string') {
+    if (/\.xlsx$/i.test(source)) {
+      const { sheet, headerRow, dateFormat, hasHeaders, skipEmptyLines } = options;
+      return readXLSX(source, { sheet, headerRow, dateFormat, hasHeaders, skipEmptyLines });
+    }
+    return readCSV(source, options);
+  }
+  return source;
+}
+
+function toStringRecord(row: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(row)) {
+    result[key] = value === null || value === undefined
+      ? ''
+      : value instanceof Date ? value.toISOString() : String(value);
+  }
+  return result;
+}
+
+function collectColumns(rows: Record<string, string>[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach((key) => columns.add(key));
+  }
+  return [...columns];
+}
+
+/**
+ * Index rows by key; duplicate keys are disambiguated by occurrence
+ */
+function indexRows(rows: Record<string, string>[], keyColumns: string[]): Map<string, Record<string, string>> {
+  const index = new Map<string, Record<string, string>>();
+  const occurrences = new Map<string, number>();
+
+  rows.forEach((row, i) => {
+    const baseKey = keyColumns.length > 0
+      ? keyColumns.map((c) => `${c}=${row[c] ?? ''}`).join(', ')
+      : `row ${i + 1}`;
+    const count = occurrences.get(baseKey) ?? 0;
+    occurrences.set(baseKey, count + 1);
+    index.set(count === 0 ? baseKey : `${baseKey}#${count + 1}`, row);
+  });
+
+  return index;
+}
+
+function cellsEqual(
+  actual: string | undefined,
+  expected: string | undefined,
+  column: string,
+  options: CSVCompareOptions
+): boolean {
+  let a = actual ?? '';
+  let b = expected ?? '';
+
+  if (options.normalize === true) {
+    a = cleanForComparison(a);
+    b = cleanForComparison(b);
+  } else if (typeof options.normalize === 'function') {
+    a = options.normalize(a, column);
+    b = options.normalize(b, column);
+  }
+
+  if (a === b) {
+    return true;
+  }
+
+  if (options.numericTolerance !== undefined && isNumeric(a) && isNumeric(b)) {
+    return Math.abs(cleanNumeric(a) - cleanNumeric(b)) <= options.numericTolerance;
+  }
+
+  return false;
+}
+
+function isNumeric(value: string): boolean {
+  return PATTERNS.numeric.test(value.replace(/[\s,$€£%]/g, ''));
+}
+
+function formatRow(row: Record<string, string>, keyColumns: string[]): string {
+  const columns = keyColumns.length > 0 ? keyColumns : Object.keys(row);
+  return columns.map((c) => `${c}=${JSON.stringify(row[c] ?? '')}`).join(', ');
+}
+
+function formatSummary(
+  result: Omit<CSVComparisonResult, 'summary'>,
+  keyColumns: string[]
+): string {
+  if (result.isEqual) {
+    return 'CSV data matches';
+  }
+
+  const lines: string[] = [
+    `CSV data differs: ${result.added.length} added, ${result.removed.length} removed, ` +
+      `${result.changed.length} changed`,
+  ];
+
+  if (result.missingColumns.length > 0) {
+    lines.push(`Missing columns: ${result.missingColumns.join(', ')}`);
+  }
+  if (result.extraColumns.length > 0) {
+    lines.push(`Extra columns: ${result.extraColumns.join(', ')}`);
+  }
+
+  const rowLines: string[] = [
+    ...result.added.map((row) => `+ ${formatRow(row, keyColumns)}`),
+    ...result.removed.map((row) => `- ${formatRow(row, keyColumns)}`),
+    ...result.changed.map((diff) =>
+      `~ [${diff.key}] ` +
+      diff.cells
+        .map((cell) => `${cell.column}: expected ${JSON.stringify(cell.expected)}, got ${JSON.stringify(cell.actual)}`)
+        .join('; ')
+    ),
+  ];
+
+  lines.push(...rowLines.slice(0, MAX_SUMMARY_ROWS));
+  if (rowLines.length > MAX_SUMMARY_ROWS) {
+    lines.push(`... and ${rowLines.length - MAX_SUMMARY_ROWS} more`);
+  }
+
+  return lines.join('\n');
+}
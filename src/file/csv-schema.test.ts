@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import { validateCSVSchema, validateCSVRow, coerceOrThrow, CSVSchemaError } from './csv-schema';
+
+test.describe('validateCSVRow', () => {
+  test('coerces numbers, integers, booleans and dates', () => {
+    const { errors, value } = validateCSVRow(
+      { price: ' 9.5 ', qty: '3', active: 'Yes', since: '29/02/2024', name: 'Ann' },
+      1,
+      { price: 'number', qty: 'integer', active: 'boolean', since: { type: 'date', format: 'DD/MM/YYYY' } }
+    );
+
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ price: 9.5, qty: 3, active: true, since: new Date(2024, 1, 29), name: 'Ann' });
+  });
+
+  test('turns empty optional cells into null and flags empty required ones', () => {
+    const { errors, value } = validateCSVRow(
+      { a: '', b: '  ' },
+      4,
+      { a: 'number', b: { type: 'string', required: true } }
+    );
+
+    expect(value).toEqual({ a: null, b: null });
+    expect(errors).toEqual([{
+      row: 4,
+      column: 'b',
+      value: '  ',
+      rule: 'required',
+      message: "Row 4, column 'b': value is required (got '  ')",
+    }]);
+  });
+
+  test('reports the failed rule for each cell', () => {
+    const { errors } = validateCSVRow(
+      { qty: '1.5', flag: 'maybe', when: '2024-13-01', email: 'nope', size: 'XXL', code: 'ab', age: '10' },
+      2,
+      {
+        qty: 'integer',
+        flag: 'boolean',
+        when: { type: 'date', format: 'YYYY-MM-DD' },
+        email: 'email',
+        size: { type: 'enum', values: ['S', 'M', 'L'] },
+        code: { type: 'regex', pattern: /^\d+$/ },
+        age: { type: 'number', min: 18 },
+      }
+    );
+
+    expect(errors.map((e) => [e.column, e.rule])).toEqual([
+      ['qty', 'type'],
+      ['flag', 'type'],
+      ['when', 'type'],
+      ['email', 'email'],
+      ['size', 'enum'],
+      ['code', 'regex'],
+      ['age', 'min'],
+    ]);
+    expect(errors[6].message).toBe("Row 2, column 'age': expected at least 18 (got '10')");
+  });
+
+  test('checks date bounds', () => {
+    const schema = { day: { type: 'date' as const, max: new Date('2024-01-01T00:00:00Z') } };
+    expect(validateCSVRow({ day: '2023-06-01' }, 1, schema).errors).toEqual([]);
+    expect(validateCSVRow({ day: '2025-06-01' }, 1, schema).errors[0].rule).toBe('max');
+  });
+
+  test('runs custom validators with the whole row', () => {
+    const schema = {
+      end: { type: 'integer' as const, validate: (value: string, row: Record<string, string>) =>
+        Number(value) >= Number(row.start) || 'must not be before start' },
+    };
+
+    expect(validateCSVRow({ start: '1', end: '2' }, 1, schema).errors).toEqual([]);
+    const [error] = validateCSVRow({ start: '5', end: '2' }, 1, schema).errors;
+    expect(error.rule).toBe('custom');
+    expect(error.message).toContain('must not be before start');
+  });
+
+  test('requires a pattern for regex columns', () => {
+    expect(() => validateCSVRow({ code: 'x' }, 1, { code: 'regex' })).toThrow("Column type 'regex' requires a pattern");
+  });
+});
+
+test('validateCSVSchema numbers rows from 1 and collects every error', () => {
+  const result = validateCSVSchema([{ n: '1' }, { n: 'x' }, { n: 'y' }], { n: 'number' });
+
+  expect(result.isValid).toBe(false);
+  expect(result.errors.map((e) => e.row)).toEqual([2, 3]);
+  expect(result.rows[0]).toEqual({ n: 1 });
+});
+
+test('coerceOrThrow throws CSVSchemaError listing at most ten errors', () => {
+  const rows = Array.from({ length: 12 }, () => ({ n: 'x' }));
+
+  let error: unknown;
+  try {
+    coerceOrThrow(rows, { n: 'number' });
+  } catch (err) {
+    error = err;
+  }
+
+  expect(error).toBeInstanceOf(CSVSchemaError);
+  const schemaError = error as CSVSchemaError;
+  expect(schemaError.errors).toHaveLength(12);
+  expect(schemaError.message).toContain('failed with 12 error(s)');
+  expect(schemaError.message).toContain('... and 2 more');
+  expect(coerceOrThrow([{ n: '2' }], { n: 'number' })).toEqual([{ n: 2 }]);
+});
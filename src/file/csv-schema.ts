@@ -0,0 +1,221 @@
+/**
+ * CSV schema validation and type coercion
+ */
+
+import type { CSVSchema, CSVColumnSchema, CSVCellError } from '../types';
+import { PATTERNS } from '../string/regex';
+import { parseFormattedDate } from '../generators/date';
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y'];
+const FALSE_VALUES = ['false', '0', 'no', 'n'];
+
+/**
+ * Error thrown when CSV rows fail schema validation during a read
+ */
+export class CSVSchemaError extends Error {
+  constructor(public readonly errors: CSVCellError[]) {
+    super(
+      `CSV schema validation failed with ${errors.length} error(s):\n` +
+      errors.slice(0, 10).map((e) => `  ${e.message}`).join('\n') +
+      (errors.length > 10 ? `\n  ... and ${errors.length - 10} more` : '')
+    );
+    this.name = 'CSVSchemaError';
+  }
+}
+
+/**
+ * Validate parsed CSV rows against a schema and coerce values to their types
+ * Empty optional cells coerce to null; columns without a schema stay strings.
+ */
+export function validateCSVSchema<T = Record<string, unknown>>(
+  data: Record<string, string>[],
+  schema: CSVSchema
+): { isValid: boolean; errors: CSVCellError[]; rows: T[] } {
+  const errors: CSVCellError[] = [];
+  const rows: T[] = [];
+
+  data.forEach((row, index) => {
+    const result = validateCSVRow(row, index + 1, schema);
+    errors.push(...result.errors);
+    rows.push(result.value as T);
+  });
+
+  return { isValid: errors.length === 0, errors, rows };
+}
+
+/**
+ * Validate and coerce a single row
+ * @param rowNumber - 1-based data row number used in error reports
+ */
+export function validateCSVRow(
+  row: Record<string, string>,
+  rowNumber: number,
+  schema: CSVSchema
+): { errors: CSVCellError[]; value: Record<string, unknown> } {
+  const errors: CSVCellError[] = [];
+  const value: Record<string, unknown> = { ...row };
+
+  for (const [column, definition] of Object.entries(schema)) {
+    const columnSchema: CSVColumnSchema = typeof definition === 'string' ? { type: definition } : definition;
+    const raw = row[column] ?? '';
+
+    const fail = (rule: string, detail: string) => {
+      errors.push({
+        row: rowNumber,
+        column,
+        value: raw,
+        rule,
+        message: `Row ${rowNumber}, column '${column}': ${detail} (got '${raw}')`,
+      });
+    };
+
+    if (raw.trim() === '') {
+      if (columnSchema.required) {
+        fail('required', 'value is required');
+      }
+      value[column] = null;
+      continue;
+    }
+
+    const checked = checkCell(raw, columnSchema, row);
+    if (checked.error) {
+      fail(checked.error.rule, checked.error.detail);
+      continue;
+    }
+    value[column] = checked.value;
+  }
+
+  return { errors, value };
+}
+
+/**
+ * Validate and coerce parsed rows, throwing CSVSchemaError on any invalid cell
+ */
+export function coerceOrThrow<T>(data: Record<string, string>[], schema: CSVSchema): T[] {
+  const result = validateCSVSchema<T>(data, schema);
+  if (!result.isValid) {
+    throw new CSVSchemaError(result.errors);
+  }
+  return result.rows;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check one non-empty cell, returning the coerced value or the failed rule
+ */
+function checkCell(
+  raw: string,
+  schema: CSVColumnSchema,
+  row: Record<string, string>
+): { value?: unknown; error?: { rule: string; detail: string } } {
+  const { type = 'string' } = schema;
+  const trimmed = raw.trim();
+  let value: unknown = raw;
+
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const num = Number(trimmed);
+      if (!PATTERNS.numeric.test(trimmed) || isNaN(num)) {
+        return { error: { rule: 'type', detail: `expected ${type}` } };
+      }
+      if (type === 'integer' && !Number.isInteger(num)) {
+        return { error: { rule: 'type', detail: 'expected integer' } };
+      }
+      const rangeError = checkRange(num, schema);
+      if (rangeError) return { error: rangeError };
+      value = num;
+      break;
+    }
+
+    case 'boolean': {
+      const lower = trimmed.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) {
+        value = true;
+      } else if (FALSE_VALUES.includes(lower)) {
+        value = false;
+      } else {
+        return { error: { rule: 'type', detail: 'expected boolean' } };
+      }
+      break;
+    }
+
+    case 'date': {
+      const date = schema.format ? parseFormattedDate(trimmed, schema.format) : new Date(trimmed);
+      if (!date || isNaN(date.getTime())) {
+        const detail = schema.format ? `expected date in format ${schema.format}` : 'expected date';
+        return { error: { rule: 'type', detail } };
+      }
+      const rangeError = checkRange(date.getTime(), schema);
+      if (rangeError) return { error: rangeError };
+      value = date;
+      break;
+    }
+
+    case 'email':
+      if (!PATTERNS.email.test(trimmed)) {
+        return { error: { rule: 'email', detail: 'expected email address' } };
+      }
+      break;
+
+    case 'enum':
+      if (!(schema.values ?? []).includes(raw)) {
+        return { error: { rule: 'enum', detail: `expected one of ${(schema.values ?? []).join(', ')}` } };
+      }
+      break;
+
+    case 'regex': {
+      const pattern = resolvePattern(schema.pattern);
+      if (!pattern.test(raw)) {
+        return { error: { rule: 'regex', detail: `expected to match ${schema.pattern}` } };
+      }
+      break;
+    }
+
+    case 'string':
+    case 'custom':
+      break;
+  }
+
+  if (schema.validate) {
+    const result = schema.validate(raw, row);
+    if (result !== true) {
+      return { error: { rule: 'custom', detail: typeof result === 'string' ? result : 'custom validation failed' } };
+    }
+  }
+
+  return { value };
+}
+
+function checkRange(value: number, schema: CSVColumnSchema): { rule: string; detail: string } | null {
+  const min = schema.min instanceof Date ? schema.min.getTime() : schema.min;
+  const max = schema.max instanceof Date ? schema.max.getTime() : schema.max;
+
+  if (min !== undefined && value < min) {
+    return { rule: 'min', detail: `expected at least ${formatBound(schema.min)}` };
+  }
+  if (max !== undefined && value > max) {
+    return { rule: 'max', detail: `expected at most ${formatBound(schema.max)}` };
+  }
+  return null;
+}
+
+function formatBound(bound: number | Date | undefined): string {
+  return bound instanceof Date ? bound.toISOString() : String(bound);
+}
+
+function resolvePattern(pattern: RegExp | string | undefined): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+  if (pattern && pattern in PATTERNS) {
+    return PATTERNS[pattern as keyof typeof PATTERNS];
+  }
+  if (pattern) {
+    return new RegExp(pattern);
+  }
+  throw new Error("Column type 'regex' requires a pattern");
+}
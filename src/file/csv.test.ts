@@ -0,0 +1,130 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseCSV,
+  parseCSVRows,
+  stringifyCSV,
+  readCSV,
+  streamCSV,
+  validateCSV,
+  getCSVHeaders,
+  countCSVRows,
+} from './csv';
+import { CSVSchemaError } from './csv-schema';
+
+test.describe('parseCSV', () => {
+  test('maps rows to records keyed by the header', () => {
+    expect(parseCSV('name,age\nAnn,31\nBob,42')).toEqual([
+      { name: 'Ann', age: '31' },
+      { name: 'Bob', age: '42' },
+    ]);
+  });
+
+  test('handles quoted delimiters, newlines and escaped quotes', () => {
+    const content = 'id,note\n1,"a, b"\n2,"line one\nline two"\n3,"say ""hi"""';
+    expect(parseCSV(content)).toEqual([
+      { id: '1', note: 'a, b' },
+      { id: '2', note: 'line one\nline two' },
+      { id: '3', note: 'say "hi"' },
+    ]);
+  });
+
+  test('strips a BOM and accepts CRLF line endings', () => {
+    expect(parseCSV('\uFEFFa,b\r\n1,2\r\n')).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  test('trims unquoted fields but keeps whitespace inside quotes', () => {
+    expect(parseCSV('a,b\n  x  ," y "')).toEqual([{ a: 'x', b: ' y ' }]);
+    expect(parseCSV('a\n  x  ', { trim: false })).toEqual([{ a: '  x  ' }]);
+  });
+
+  test('skips empty lines unless told otherwise', () => {
+    expect(parseCSV('a\n1\n\n2\n')).toEqual([{ a: '1' }, { a: '2' }]);
+    expect(parseCSV('a\n1\n\n2', { skipEmptyLines: false })).toEqual([{ a: '1' }, { a: '' }, { a: '2' }]);
+  });
+
+  test('generates column names without headers', () => {
+    expect(parseCSV('1;2', { hasHeaders: false, delimiter: ';' })).toEqual([{ column_0: '1', column_1: '2' }]);
+  });
+
+  test('fills missing fields, or throws with strictColumns', () => {
+    expect(parseCSV('a,b\n1')).toEqual([{ a: '1', b: '' }]);
+    expect(() => parseCSV('a,b\n1', { strictColumns: true })).toThrow('Row 1: expected 2 fields, got 1');
+  });
+});
+
+test('parseCSVRows keeps the header row', () => {
+  expect(parseCSVRows('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+});
+
+test('stringifyCSV quotes fields that need it and round-trips through parseCSV', () => {
+  const data = [
+    { name: 'Ann, Jr.', quote: 'say "hi"', note: 'two\nlines' },
+    { name: 'Bob', quote: '', note: null },
+  ];
+  const csv = stringifyCSV(data);
+
+  expect(csv.split('\n')[0]).toBe('name,quote,note');
+  expect(parseCSV(csv)).toEqual([
+    { name: 'Ann, Jr.', quote: 'say "hi"', note: 'two\nlines' },
+    { name: 'Bob', quote: '', note: '' },
+  ]);
+  expect(stringifyCSV([])).toBe('');
+});
+
+test.describe('file helpers', () => {
+  let dir: string;
+  let file: string;
+
+  test.beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'csv-test-'));
+    file = path.join(dir, 'users.csv');
+    await fs.promises.writeFile(file, 'name,age\nAnn,31\nBob,42\n"Eve, Q",x\n');
+  });
+
+  test.afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  test('readCSV coerces with a schema and throws CSVSchemaError on bad cells', async () => {
+    await expect(readCSV(file, { schema: { age: 'integer' } })).rejects.toThrow(CSVSchemaError);
+
+    await fs.promises.writeFile(file, 'name,age\nAnn,31\n');
+    expect(await readCSV(file, { schema: { age: 'integer' } })).toEqual([{ name: 'Ann', age: 31 }]);
+  });
+
+  test('streamCSV yields the same records as readCSV', async () => {
+    const streamed = [];
+    for await (const row of streamCSV(file)) {
+      streamed.push(row);
+    }
+    expect(streamed).toEqual(await readCSV(file));
+  });
+
+  test('getCSVHeaders and countCSVRows read the file incrementally', async () => {
+    expect(await getCSVHeaders(file)).toEqual(['name', 'age']);
+    expect(await countCSVRows(file)).toBe(3);
+  });
+
+  test('validateCSV reports column, count and schema problems', async () => {
+    const result = await validateCSV(file, {
+      expectedColumns: ['name', 'email'],
+      expectedRowCount: 2,
+      schema: { age: 'integer' },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.rowCount).toBe(3);
+    expect(result.errors).toContain('Missing columns: email');
+    expect(result.errors).toContain('Expected 2 rows, got 3');
+    expect(result.cellErrors).toEqual([expect.objectContaining({ row: 3, column: 'age', rule: 'type' })]);
+  });
+
+  test('validateCSV reports unreadable files instead of throwing', async () => {
+    const result = await validateCSV(path.join(dir, 'missing.csv'));
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toMatch(/^Failed to read CSV:/);
+  });
+});
@@ -4,27 +4,43 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { CSVOptions, CSVValidationOptions, CSVValidationResult } from '../types';
+import type {
+  CSVOptions,
+  CSVReadOptions,
+  CSVValidationOptions,
+  CSVValidationResult,
+  CSVCellError,
+} from '../types';
+import { validateCSVSchema, validateCSVRow, coerceOrThrow, CSVSchemaError } from './csv-schema';
 
 const DEFAULT_OPTIONS: Required<CSVOptions> = {
   delimiter: ',',
   hasHeaders: true,
   encoding: 'utf-8',
   skipEmptyLines: true,
+  quote: '"',
+  trim: true,
+  strictColumns: false,
 };
 
+const BOM = '\uFEFF';
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
 /**
  * Read CSV file and return array of objects
+ * With a schema, values are validated and coerced to their declared types.
  */
 export async function readCSV<T = Record<string, string>>(
   filePath: string,
-  options: CSVOptions = {}
+  options: CSVReadOptions = {}
 ): Promise<T[]> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const { schema, ...csvOptions } = options;
+  const opts = { ...DEFAULT_OPTIONS, ...csvOptions };
   const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
 
   const content = await fs.promises.readFile(absolutePath, { encoding: opts.encoding });
-  return parseCSV<T>(content, opts);
+  const data = parseCSV(content, opts);
+  return schema ? coerceOrThrow<T>(data, schema) : (data as T[]);
 }
 
 /**
@@ -32,60 +48,75 @@ export async function readCSV<T = Record<string, string>>(
  */
 export function readCSVSync<T = Record<string, string>>(
   filePath: string,
-  options: CSVOptions = {}
+  options: CSVReadOptions = {}
 ): T[] {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const { schema, ...csvOptions } = options;
+  const opts = { ...DEFAULT_OPTIONS, ...csvOptions };
   const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
 
   const content = fs.readFileSync(absolutePath, { encoding: opts.encoding });
-  return parseCSV<T>(content, opts);
+  const data = parseCSV(content, opts);
+  return schema ? coerceOrThrow<T>(data, schema) : (data as T[]);
 }
 
 /**
  * Parse CSV content string into array of objects
+ * Handles quoted fields with embedded delimiters, newlines and escaped quotes (RFC 4180)
  */
 export function parseCSV<T = Record<string, string>>(
   content: string,
   options: CSVOptions = {}
 ): T[] {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const lines = content.split(/\r?\n/);
+  const toRecord = createRecordMapper<T>(opts);
   const result: T[] = [];
 
-  // Filter empty lines if needed
-  const filteredLines = opts.skipEmptyLines
-    ? lines.filter((line) => line.trim().length > 0)
-    : lines;
-
-  if (filteredLines.length === 0) {
-    return result;
-  }
-
-  let headers: string[];
-  let dataStartIndex: number;
-
-  if (opts.hasHeaders) {
-    headers = parseLine(filteredLines[0], opts.delimiter);
-    dataStartIndex = 1;
-  } else {
-    // Generate numeric headers
-    const firstLine = parseLine(filteredLines[0], opts.delimiter);
-    headers = firstLine.map((_, i) => `column_${i}`);
-    dataStartIndex = 0;
+  for (const row of parseCSVRows(content, opts)) {
+    const record = toRecord(row);
+    if (record) {
+      result.push(record);
+    }
   }
 
-  for (let i = dataStartIndex; i < filteredLines.length; i++) {
-    const values = parseLine(filteredLines[i], opts.delimiter);
-    const row: Record<string, string> = {};
+  return result;
+}
 
-    headers.forEach((header, index) => {
-      row[header] = values[index] || '';
-    });
+/**
+ * Parse CSV content string into raw rows of fields (header row included)
+ */
+export function parseCSVRows(content: string, options: CSVOptions = {}): string[][] {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const parser = createRowParser(opts);
+  return [...parser.push(content), ...parser.end()];
+}
 
-    result.push(row as T);
+/**
+ * Stream CSV file rows as objects without loading the whole file into memory
+ */
+export async function* streamCSV<T = Record<string, string>>(
+  filePath: string,
+  options: CSVReadOptions = {}
+): AsyncGenerator<T> {
+  const { schema, ...csvOptions } = options;
+  const opts = { ...DEFAULT_OPTIONS, ...csvOptions };
+  const toRecord = createRecordMapper<Record<string, string>>(opts);
+  let rowNumber = 0;
+
+  for await (const row of streamCSVRows(filePath, opts)) {
+    const record = toRecord(row);
+    if (!record) continue;
+
+    rowNumber++;
+    if (schema) {
+      const { errors, value } = validateCSVRow(record, rowNumber, schema);
+      if (errors.length > 0) {
+        throw new CSVSchemaError(errors);
+      }
+      yield value as T;
+    } else {
+      yield record as T;
+    }
   }
-
-  return result;
 }
 
 /**
@@ -135,13 +166,17 @@ export function stringifyCSV(
   const lines: string[] = [];
 
   if (opts.hasHeaders) {
-    lines.push(headers.map((h) => escapeField(h, opts.delimiter)).join(opts.delimiter));
+    lines.push(headers.map((h) => escapeField(h, opts.delimiter, opts.quote)).join(opts.delimiter));
   }
 
   for (const row of data) {
     const values = headers.map((header) => {
       const value = row[header];
-      return escapeField(value === null || value === undefined ? '' : String(value), opts.delimiter);
+      return escapeField(
+        value === null || value === undefined ? '' : String(value),
+        opts.delimiter,
+        opts.quote
+      );
     });
     lines.push(values.join(opts.delimiter));
   }
@@ -157,9 +192,11 @@ export async function validateCSV(
   options: CSVValidationOptions = {}
 ): Promise<CSVValidationResult> {
   const errors: string[] = [];
+  const cellErrors: CSVCellError[] = [];
 
   try {
-    const data = await readCSV(filePath, options);
+    const { schema, ...csvOptions } = options;
+    const data = await readCSV(filePath, csvOptions);
     const columns = data.length > 0 ? Object.keys(data[0]) : [];
 
     // Check expected columns
@@ -195,9 +232,17 @@ export async function validateCSV(
       }
     }
 
+    // Check per-column schema
+    if (schema) {
+      const result = validateCSVSchema(data as Record<string, string>[], schema);
+      cellErrors.push(...result.errors);
+      errors.push(...result.errors.map((e) => e.message));
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
+      cellErrors,
       rowCount: data.length,
       columns,
     };
@@ -206,6 +251,7 @@ export async function validateCSV(
     return {
       isValid: false,
       errors: [`Failed to read CSV: ${errorMessage}`],
+      cellErrors,
       rowCount: 0,
       columns: [],
     };
@@ -220,12 +266,12 @@ export async function getCSVHeaders(
   options: CSVOptions = {}
 ): Promise<string[]> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
 
-  const content = await fs.promises.readFile(absolutePath, { encoding: opts.encoding });
-  const firstLine = content.split(/\r?\n/)[0];
+  for await (const row of streamCSVRows(filePath, opts)) {
+    return row;
+  }
 
-  return parseLine(firstLine, opts.delimiter);
+  return [];
 }
 
 /**
@@ -236,13 +282,14 @@ export async function countCSVRows(
   options: CSVOptions = {}
 ): Promise<number> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  let count = 0;
 
-  const content = await fs.promises.readFile(absolutePath, { encoding: opts.encoding });
-  const lines = content.split(/\r?\n/).filter((line) => opts.skipEmptyLines ? line.trim().length > 0 : true);
+  for await (const _row of streamCSVRows(filePath, opts)) {
+    count++;
+  }
 
   // Subtract header row if present
-  return opts.hasHeaders ? Math.max(0, lines.length - 1) : lines.length;
+  return opts.hasHeaders ? Math.max(0, count - 1) : count;
 }
 
 // ============================================================================
@@ -250,60 +297,184 @@ export async function countCSVRows(
 // ============================================================================
 
 /**
- * Parse a single CSV line, handling quoted fields
+ * Stream raw rows from a CSV file
  */
-function parseLine(line: string, delimiter: string): string[] {
-  const result: string[] = [];
-  let current = '';
+async function* streamCSVRows(
+  filePath: string,
+  opts: Required<CSVOptions>
+): AsyncGenerator<string[]> {
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  const stream = fs.createReadStream(absolutePath, {
+    encoding: opts.encoding,
+    highWaterMark: STREAM_CHUNK_SIZE,
+  });
+  const parser = createRowParser(opts);
+
+  try {
+    for await (const chunk of stream) {
+      yield* parser.push(chunk as string);
+    }
+    yield* parser.end();
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Incremental RFC 4180 row parser
+ * Chunks may split anywhere, including inside quoted fields and CRLF pairs.
+ */
+function createRowParser(opts: Required<CSVOptions>): {
+  push(chunk: string): string[][];
+  end(): string[][];
+} {
+  const { delimiter, quote, trim, skipEmptyLines } = opts;
+
+  let row: string[] = [];
+  let field = '';
+  let fieldQuoted = false;
   let inQuotes = false;
+  let quotePending = false; // Saw a quote inside a quoted field; next char decides
+  let skipLF = false; // Previous chunk ended with CR
+  let atStart = true;
+
+  const endField = () => {
+    row.push(fieldQuoted || !trim ? field : field.trim());
+    field = '';
+    fieldQuoted = false;
+  };
+
+  const endRow = (rows: string[][]) => {
+    endField();
+    const isEmpty = row.length === 1 && row[0].trim() === '';
+    if (!isEmpty || !skipEmptyLines) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  return {
+    push(chunk: string): string[][] {
+      const rows: string[][] = [];
+      let i = 0;
+
+      if (atStart) {
+        atStart = false;
+        if (chunk.startsWith(BOM)) {
+          i = 1;
+        }
+      }
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
+      for (; i < chunk.length; i++) {
+        const char = chunk[i];
 
-    if (inQuotes) {
-      if (char === '"') {
-        if (nextChar === '"') {
-          // Escaped quote
-          current += '"';
-          i++;
-        } else {
+        if (skipLF) {
+          skipLF = false;
+          if (char === '\n') continue;
+        }
+
+        if (quotePending) {
+          quotePending = false;
+          if (char === quote) {
+            // Escaped quote
+            field += quote;
+            continue;
+          }
           // End of quoted field
           inQuotes = false;
         }
-      } else {
-        current += char;
+
+        if (inQuotes) {
+          if (char === quote) {
+            quotePending = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+
+        if (char === quote && field.trim() === '' && !fieldQuoted) {
+          inQuotes = true;
+          fieldQuoted = true;
+          field = '';
+        } else if (char === delimiter) {
+          endField();
+        } else if (char === '\n') {
+          endRow(rows);
+        } else if (char === '\r') {
+          endRow(rows);
+          skipLF = true;
+        } else if (fieldQuoted && trim && (char === ' ' || char === '\t')) {
+          // Whitespace between closing quote and delimiter
+          continue;
+        } else {
+          field += char;
+        }
       }
-    } else {
-      if (char === '"') {
-        inQuotes = true;
-      } else if (char === delimiter) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+
+      return rows;
+    },
+
+    end(): string[][] {
+      const rows: string[][] = [];
+      if (quotePending) {
+        quotePending = false;
+        inQuotes = false;
+      }
+      if (row.length > 0 || field.length > 0 || fieldQuoted || inQuotes) {
+        endRow(rows);
+      }
+      inQuotes = false;
+      return rows;
+    },
+  };
+}
+
+/**
+ * Create a function mapping raw rows to records
+ * The first row becomes the header when hasHeaders is set.
+ */
+function createRecordMapper<T>(opts: Required<CSVOptions>): (row: string[]) => T | null {
+  let headers: string[] | null = null;
+  let rowNumber = 0;
+
+  return (row: string[]) => {
+    if (headers === null) {
+      if (opts.hasHeaders) {
+        headers = row;
+        return null;
       }
+      // Generate numeric headers
+      headers = row.map((_, i) => `column_${i}`);
     }
-  }
 
-  result.push(current.trim());
-  return result;
+    rowNumber++;
+    if (opts.strictColumns && row.length !== headers.length) {
+      throw new Error(`Row ${rowNumber}: expected ${headers.length} fields, got ${row.length}`);
+    }
+
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = row[index] ?? '';
+    });
+    return record as T;
+  };
 }
 
 /**
  * Escape a field value for CSV
  */
-function escapeField(value: string, delimiter: string): string {
+function escapeField(value: string, delimiter: string, quote: string): string {
   // Check if quoting is needed
   const needsQuoting = value.includes(delimiter) ||
-    value.includes('"') ||
+    value.includes(quote) ||
     value.includes('\n') ||
     value.includes('\r');
 
   if (needsQuoting) {
     // Escape quotes by doubling them
-    const escaped = value.replace(/"/g, '""');
-    return `"${escaped}"`;
+    const escaped = value.split(quote).join(quote + quote);
+    return `${quote}${escaped}${quote}`;
   }
 
   return value;
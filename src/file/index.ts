@@ -7,6 +7,8 @@ export {
   readCSV,
   readCSVSync,
   parseCSV,
+  parseCSVRows,
+  streamCSV,
   writeCSV,
   writeCSVSync,
   stringifyCSV,
@@ -15,6 +17,30 @@ export {
   countCSVRows,
 } from './csv';
 
+// CSV schema utilities
+export {
+  validateCSVSchema,
+  validateCSVRow,
+  CSVSchemaError,
+} from './csv-schema';
+
+// CSV comparison utilities
+export {
+  compareCSV,
+  compareCSVRecords,
+} from './csv-compare';
+
+// Excel utilities
+export {
+  readXLSX,
+  readXLSXSync,
+  parseXLSX,
+  writeXLSX,
+  writeXLSXSync,
+  stringifyXLSX,
+  getXLSXSheetNames,
+} from './xlsx';
+
 // Download/file utilities
 export {
   waitForDownload,
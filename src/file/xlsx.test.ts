@@ -0,0 +1,132 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readZip, writeZip } from './zip';
+import { parseXLSX, stringifyXLSX, readXLSX, writeXLSX, getXLSXSheetNames } from './xlsx';
+import { CSVSchemaError } from './csv-schema';
+
+test.describe('zip', () => {
+  test('round-trips text and binary entries', () => {
+    const binary = Buffer.from([0, 1, 2, 250, 255]);
+    const entries = readZip(writeZip(new Map<string, Buffer | string>([
+      ['docs/readme.txt', 'héllo '.repeat(100)],
+      ['data.bin', binary],
+      ['empty.txt', ''],
+    ])));
+
+    expect([...entries.keys()]).toEqual(['docs/readme.txt', 'data.bin', 'empty.txt']);
+    expect(entries.get('docs/readme.txt')?.toString('utf8')).toBe('héllo '.repeat(100));
+    expect(entries.get('data.bin')).toEqual(binary);
+    expect(entries.get('empty.txt')?.length).toBe(0);
+  });
+
+  test('reads stored entries', () => {
+    // Rewrite a deflated single-entry archive as stored (method 0)
+    const content = Buffer.from('plain');
+    const archive = writeZip(new Map([['a.txt', content]]));
+    const compressedSize = archive.readUInt32LE(18);
+    const nameLength = archive.readUInt16LE(26);
+    const local = Buffer.from(archive.subarray(0, 30 + nameLength));
+    const central = Buffer.from(archive.subarray(30 + nameLength + compressedSize, archive.length - 22));
+    const eocd = Buffer.from(archive.subarray(archive.length - 22));
+
+    local.writeUInt16LE(0, 8);
+    local.writeUInt32LE(content.length, 18);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt32LE(content.length, 20);
+    eocd.writeUInt32LE(local.length + content.length, 16);
+
+    const entries = readZip(Buffer.concat([local, content, central, eocd]));
+    expect(entries.get('a.txt')?.toString()).toBe('plain');
+  });
+
+  test('rejects buffers that are not ZIP archives', () => {
+    expect(() => readZip(Buffer.alloc(64))).toThrow('end of central directory not found');
+  });
+});
+
+test.describe('xlsx', () => {
+  test('round-trips strings, numbers, booleans and dates', () => {
+    const buffer = stringifyXLSX([
+      { name: 'Ann <admin> & "co"', score: 9.5, active: true, joined: new Date(2024, 1, 29) },
+      { name: 'Bob', score: -3, active: false, joined: new Date(2024, 2, 1, 13, 45, 30) },
+      { name: '', score: null, active: undefined, joined: '' },
+    ]);
+
+    expect(parseXLSX(buffer, { skipEmptyLines: false })).toEqual([
+      { name: 'Ann <admin> & "co"', score: '9.5', active: 'true', joined: '2024-02-29' },
+      { name: 'Bob', score: '-3', active: 'false', joined: '2024-03-01 13:45:30' },
+      { name: '', score: '', active: '', joined: '' },
+    ]);
+    expect(parseXLSX(buffer)).toHaveLength(2);
+  });
+
+  test('formats dates with dateFormat', () => {
+    const buffer = stringifyXLSX([{ day: new Date(2023, 11, 31) }]);
+    expect(parseXLSX(buffer, { dateFormat: 'DD/MM/YYYY' })).toEqual([{ day: '31/12/2023' }]);
+  });
+
+  test('collects headers from every record', () => {
+    const buffer = stringifyXLSX([{ a: 1 }, { b: 2 }]);
+    expect(parseXLSX(buffer)).toEqual([{ a: '1', b: '' }, { a: '', b: '2' }]);
+  });
+
+  test('reads without headers and from a later header row', () => {
+    const buffer = stringifyXLSX([
+      { a: 'Report' },
+      { a: 'id', b: 'name' },
+      { a: 1, b: 'Ann' },
+    ], { hasHeaders: false });
+
+    expect(parseXLSX(buffer, { hasHeaders: false })[0]).toEqual({ column_0: 'Report', column_1: '' });
+    expect(parseXLSX(buffer, { headerRow: 2 })).toEqual([{ id: '1', name: 'Ann' }]);
+  });
+
+  test('selects sheets by name or index', () => {
+    const buffer = stringifyXLSX({ First: [{ n: 1 }], 'Second & more': [{ n: 2 }] });
+
+    expect(parseXLSX(buffer)).toEqual([{ n: '1' }]);
+    expect(parseXLSX(buffer, { sheet: 1 })).toEqual([{ n: '2' }]);
+    expect(parseXLSX(buffer, { sheet: 'Second & more' })).toEqual([{ n: '2' }]);
+    expect(() => parseXLSX(buffer, { sheet: 'Missing' }))
+      .toThrow('Sheet "Missing" not found. Available sheets: First, Second & more');
+  });
+
+  test('coerces with a schema', () => {
+    const buffer = stringifyXLSX([{ qty: 2, sku: 'A-1' }]);
+
+    expect(parseXLSX(buffer, { schema: { qty: 'integer' } })).toEqual([{ qty: 2, sku: 'A-1' }]);
+    expect(() => parseXLSX(buffer, { schema: { sku: 'integer' } })).toThrow(CSVSchemaError);
+  });
+
+  test('reads shared strings written by other tools', () => {
+    const buffer = stringifyXLSX([{ placeholder: 'x' }]);
+    const files = readZip(buffer);
+    files.set('xl/sharedStrings.xml', Buffer.from(
+      '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<si><t>city</t></si><si><r><t>San </t></r><r><t>Jos&#233;</t></r></si></sst>'
+    ));
+    files.set('xl/worksheets/sheet1.xml', Buffer.from(
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c></row>' +
+      '<row r="3"><c r="A3" t="s"><v>1</v></c></row>' +
+      '</sheetData></worksheet>'
+    ));
+
+    expect(parseXLSX(writeZip(files))).toEqual([{ city: 'San José' }]);
+  });
+
+  test('writes and reads files', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xlsx-test-'));
+    try {
+      const file = path.join(dir, 'nested', 'report.xlsx');
+      await writeXLSX(file, { Orders: [{ id: 1 }], Totals: [{ sum: 1 }] });
+
+      expect(await getXLSXSheetNames(file)).toEqual(['Orders', 'Totals']);
+      expect(await readXLSX(file, { sheet: 'Totals' })).toEqual([{ sum: '1' }]);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * Excel (XLSX) file utilities
+ * Reads and writes SpreadsheetML workbooks without external dependencies
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { XLSXReadOptions, XLSXWriteOptions } from '../types';
+import { readZip, writeZip } from './zip';
+import { coerceOrThrow } from './csv-schema';
+import { formatDate } from '../generators/date';
+import { escapeHtml } from '../string/html';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+// Days between the 1900 and 1904 date systems
+const DATE1904_OFFSET = 1462;
+
+// Built-in number formats that represent dates or times
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56,
+  57, 58,
+]);
+
+const STYLE_DATE = 1;
+const STYLE_DATETIME = 2;
+
+/**
+ * Parsed workbook contents needed to read sheets
+ */
+interface Workbook {
+  files: Map<string, Buffer>;
+  sheets: Array<{ name: string; path: string }>;
+  sharedStrings: string[];
+  dateStyles: Set<number>;
+  date1904: boolean;
+}
+
+/**
+ * Read an XLSX sheet and return array of objects, like readCSV
+ */
+export async function readXLSX<T = Record<string, string>>(
+  filePath: string,
+  options: XLSXReadOptions = {}
+): Promise<T[]> {
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  const buffer = await fs.promises.readFile(absolutePath);
+  return parseXLSX<T>(buffer, options);
+}
+
+/**
+ * Read an XLSX sheet synchronously
+ */
+export function readXLSXSync<T = Record<string, string>>(
+  filePath: string,
+  options: XLSXReadOptions = {}
+): T[] {
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  return parseXLSX<T>(fs.readFileSync(absolutePath), options);
+}
+
+/**
+ * Parse XLSX content into array of objects
+ */
+export function parseXLSX<T = Record<string, string>>(
+  buffer: Buffer,
+  options: XLSXReadOptions = {}
+): T[] {
+  const {
+    sheet,
+    hasHeaders = true,
+    headerRow = 1,
+    skipEmptyLines = true,
+    schema,
+  } = options;
+
+  const workbook = loadWorkbook(buffer);
+  const target = selectSheet(workbook, sheet);
+  const grid = readSheetGrid(workbook, target.path, options.dateFormat);
+
+  let lastRow = 0;
+  let width = 0;
+  for (const [rowNumber, cells] of grid) {
+    lastRow = Math.max(lastRow, rowNumber);
+    width = Math.max(width, cells.length);
+  }
+  const headerCells = grid.get(headerRow) ?? [];
+
+  const headers = hasHeaders
+    ? Array.from({ length: width }, (_, i) => headerCells[i] || `column_${i}`)
+    : Array.from({ length: width }, (_, i) => `column_${i}`);
+
+  const records: Record<string, string>[] = [];
+  for (let rowNumber = hasHeaders ? headerRow + 1 : headerRow; rowNumber <= lastRow; rowNumber++) {
+    const cells = grid.get(rowNumber) ?? [];
+    if (skipEmptyLines && cells.every((cell) => !cell || cell.trim() === '')) {
+      continue;
+    }
+
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = cells[index] ?? '';
+    });
+    records.push(record);
+  }
+
+  return schema ? coerceOrThrow<T>(records, schema) : (records as T[]);
+}
+
+/**
+ * Get sheet names in workbook order
+ */
+export async function getXLSXSheetNames(filePath: string): Promise<string[]> {
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  const workbook = loadWorkbook(await fs.promises.readFile(absolutePath));
+  return workbook.sheets.map((s) => s.name);
+}
+
+/**
+ * Write records to an XLSX file
+ * Pass an object of sheet name to records to write multiple sheets.
+ */
+export async function writeXLSX(
+  filePath: string,
+  data: Record<string, unknown>[] | Record<string, Record<string, unknown>[]>,
+  options: XLSXWriteOptions = {}
+): Promise<void> {
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.promises.writeFile(absolutePath, stringifyXLSX(data, options));
+}
+
+/**
+ * Write records to an XLSX file synchronously
+ */
+export function writeXLSXSync(
+  filePath: string,
+  data: Record<string, unknown>[] | Record<string, Record<string, unknown>[]>,
+  options: XLSXWriteOptions = {}
+): void {
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+  fs.writeFileSync(absolutePath, stringifyXLSX(data, options));
+}
+
+/**
+ * Build an XLSX workbook buffer from records
+ * Numbers, booleans and Dates are written as typed cells; everything else as text.
+ */
+export function stringifyXLSX(
+  data: Record<string, unknown>[] | Record<string, Record<string, unknown>[]>,
+  options: XLSXWriteOptions = {}
+): Buffer {
+  const { sheetName = 'Sheet1', hasHeaders = true } = options;
+  const sheets = Array.isArray(data) ? { [sheetName]: data } : data;
+  const names = Object.keys(sheets);
+
+  if (names.length === 0) {
+    throw new Error('At least one sheet is required');
+  }
+
+  const files = new Map<string, string>();
+
+  files.set('[Content_Types].xml', xmlDocument(
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    names.map((_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ` +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    ).join('') +
+    '</Types>'
+  ));
+
+  files.set('_rels/.rels', xmlDocument(
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" ' +
+    'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" ' +
+    'Target="xl/workbook.xml"/>' +
+    '</Relationships>'
+  ));
+
+  files.set('xl/workbook.xml', xmlDocument(
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+    names.map((name, i) => `<sheet name="${escapeHtml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+    '</sheets></workbook>'
+  ));
+
+  files.set('xl/_rels/workbook.xml.rels', xmlDocument(
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    names.map((_, i) =>
+      `<Relationship Id="rId${i + 1}" ` +
+      'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" ' +
+      `Target="worksheets/sheet${i + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${names.length + 1}" ` +
+    'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>'
+  ));
+
+  // Style 0: default, 1: date (built-in 14), 2: date-time (built-in 22)
+  files.set('xl/styles.xml', xmlDocument(
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="1"><fill><patternFill patternType="none"/></fill></fills>' +
+    '<borders count="1"><border/></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="3">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '</cellXfs></styleSheet>'
+  ));
+
+  names.forEach((name, i) => {
+    files.set(`xl/worksheets/sheet${i + 1}.xml`, buildSheetXml(sheets[name], hasHeaders));
+  });
+
+  return writeZip(files);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function loadWorkbook(buffer: Buffer): Workbook {
+  const files = readZip(buffer);
+  const read = (file: string) => files.get(file)?.toString('utf8') ?? '';
+
+  const workbookXml = read('xl/workbook.xml');
+  if (!workbookXml) {
+    throw new Error('Invalid XLSX file: xl/workbook.xml not found');
+  }
+
+  // Map relationship ids to sheet paths
+  const targets = new Map<string, string>();
+  for (const match of read('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attrs = parseAttributes(match[1]);
+    if (attrs.Id && attrs.Target) {
+      targets.set(attrs.Id, attrs.Target.startsWith('/') ? attrs.Target.slice(1) : `xl/${attrs.Target}`);
+    }
+  }
+
+  const sheets: Workbook['sheets'] = [];
+  for (const match of workbookXml.matchAll(/<sheet\b([^>]*)\/?>/g)) {
+    const attrs = parseAttributes(match[1]);
+    const target = targets.get(attrs['r:id']);
+    if (target) {
+      sheets.push({ name: decodeXml(attrs.name ?? ''), path: target });
+    }
+  }
+
+  const sharedStrings: string[] = [];
+  for (const match of read('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+    sharedStrings.push(extractText(match[1]));
+  }
+
+  return {
+    files,
+    sheets,
+    sharedStrings,
+    dateStyles: parseDateStyles(read('xl/styles.xml')),
+    date1904: /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbookXml),
+  };
+}
+
+function selectSheet(workbook: Workbook, sheet: string | number | undefined): { name: string; path: string } {
+  if (workbook.sheets.length === 0) {
+    throw new Error('XLSX file contains no sheets');
+  }
+  if (sheet === undefined) {
+    return workbook.sheets[0];
+  }
+
+  const found = typeof sheet === 'number'
+    ? workbook.sheets[sheet]
+    : workbook.sheets.find((s) => s.name === sheet);
+
+  if (!found) {
+    const available = workbook.sheets.map((s) => s.name).join(', ');
+    throw new Error(`Sheet ${JSON.stringify(sheet)} not found. Available sheets: ${available}`);
+  }
+  return found;
+}
+
+/**
+ * Read a sheet into a map of 1-based row number to cell values
+ */
+function readSheetGrid(workbook: Workbook, sheetPath: string, dateFormat?: string): Map<number, string[]> {
+  const xml = workbook.files.get(sheetPath)?.toString('utf8');
+  if (!xml) {
+    throw new Error(`Invalid XLSX file: ${sheetPath} not found`);
+  }
+
+  const grid = new Map<number, string[]>();
+  let implicitRow = 0;
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowAttrs = parseAttributes(rowMatch[1]);
+    const rowNumber = rowAttrs.r ? parseInt(rowAttrs.r, 10) : implicitRow + 1;
+    implicitRow = rowNumber;
+
+    const cells: string[] = [];
+    let implicitColumn = -1;
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = parseAttributes(cellMatch[1]);
+      const column = attrs.r ? columnIndex(attrs.r) : implicitColumn + 1;
+      implicitColumn = column;
+
+      cells[column] = readCellValue(workbook, attrs, cellMatch[2] ?? '', dateFormat);
+    }
+
+    grid.set(rowNumber, Array.from(cells, (cell) => cell ?? ''));
+  }
+
+  return grid;
+}
+
+function readCellValue(
+  workbook: Workbook,
+  attrs: Record<string, string>,
+  inner: string,
+  dateFormat?: string
+): string {
+  const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+  switch (attrs.t) {
+    case 's':
+      return raw !== undefined ? workbook.sharedStrings[parseInt(raw, 10)] ?? '' : '';
+    case 'inlineStr':
+      return extractText(inner.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+    case 'str':
+    case 'e':
+      return decodeXml(raw ?? '');
+    case 'b':
+      return raw === '1' ? 'true' : 'false';
+    case 'd':
+      return raw ? formatCellDate(new Date(decodeXml(raw)), dateFormat) : '';
+  }
+
+  if (raw === undefined) {
+    return '';
+  }
+
+  const style = attrs.s ? parseInt(attrs.s, 10) : 0;
+  if (workbook.dateStyles.has(style)) {
+    const serial = parseFloat(raw) + (workbook.date1904 ? DATE1904_OFFSET : 0);
+    return formatCellDate(serialToDate(serial), dateFormat);
+  }
+
+  return raw;
+}
+
+/**
+ * Find cellXfs indexes whose number format is a date/time format
+ */
+function parseDateStyles(stylesXml: string): Set<number> {
+  const customDateFormats = new Set<number>();
+  for (const match of stylesXml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const attrs = parseAttributes(match[1]);
+    // Strip quoted literals and [color]/[locale] sections before looking for date tokens
+    const code = decodeXml(attrs.formatCode ?? '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+    if (/[ymdhs]/i.test(code)) {
+      customDateFormats.add(parseInt(attrs.numFmtId, 10));
+    }
+  }
+
+  const dateStyles = new Set<number>();
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  let index = 0;
+  for (const match of cellXfs.matchAll(/<xf\b([^>]*?)(?:\/>|>[\s\S]*?<\/xf>)/g)) {
+    const numFmtId = parseInt(parseAttributes(match[1]).numFmtId ?? '0', 10);
+    if (BUILTIN_DATE_FORMATS.has(numFmtId) || customDateFormats.has(numFmtId)) {
+      dateStyles.add(index);
+    }
+    index++;
+  }
+
+  return dateStyles;
+}
+
+function buildSheetXml(records: Record<string, unknown>[], hasHeaders: boolean): string {
+  const headers: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!headers.includes(key)) headers.push(key);
+    }
+  }
+
+  const rows: string[] = [];
+  const addRow = (values: unknown[]) => {
+    const rowNumber = rows.length + 1;
+    const cells = values
+      .map((value, i) => buildCellXml(`${columnName(i)}${rowNumber}`, value))
+      .join('');
+    rows.push(`<row r="${rowNumber}">${cells}</row>`);
+  };
+
+  if (hasHeaders) {
+    addRow(headers);
+  }
+  for (const record of records) {
+    addRow(headers.map((header) => record[header]));
+  }
+
+  return xmlDocument(
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rows.join('')}</sheetData></worksheet>`
+  );
+}
+
+function buildCellXml(ref: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    const hasTime = value.getHours() + value.getMinutes() + value.getSeconds() > 0;
+    const style = hasTime ? STYLE_DATETIME : STYLE_DATE;
+    return `<c r="${ref}" s="${style}"><v>${dateToSerial(value)}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeHtml(String(value))}</t></is></c>`;
+}
+
+/**
+ * Convert an Excel serial date to a local Date with the same wall-clock time
+ */
+function serialToDate(serial: number): Date {
+  const utc = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * MS_PER_DAY));
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+}
+
+function dateToSerial(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return utc / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+}
+
+function formatCellDate(date: Date, dateFormat?: string): string {
+  if (isNaN(date.getTime())) {
+    return '';
+  }
+  if (dateFormat) {
+    return formatDate(date, dateFormat);
+  }
+  const hasTime = date.getHours() + date.getMinutes() + date.getSeconds() > 0;
+  return formatDate(date, hasTime ? 'YYYY-MM-DD HH:mm:ss' : 'YYYY-MM-DD');
+}
+
+/**
+ * Convert a cell reference like 'AB12' to a 0-based column index
+ */
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Convert a 0-based column index to letters like 'AB'
+ */
+function columnName(index: number): string {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+    attrs[match[1]] = match[2];
+  }
+  return attrs;
+}
+
+/**
+ * Concatenate all <t> runs (handles rich text), ignoring phonetic runs
+ */
+function extractText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetic.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += match[1];
+  }
+  return decodeXml(text);
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (entity, name: string) => {
+    switch (name) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return name.startsWith('#x')
+      ? String.fromCodePoint(parseInt(name.slice(2), 16))
+      : String.fromCodePoint(parseInt(name.slice(1), 10)) || entity;
+  });
+}
+
+function xmlDocument(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+}
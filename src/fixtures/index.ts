@@ -0,0 +1,92 @@
+/**
+ * Playwright test fixtures module
+ * Requires @playwright/test as peer dependency
+ *
+ * Kept out of the root entry point because it imports the Playwright runtime.
+ */
+
+import { test as base } from '@playwright/test';
+import { createPageHelpers } from '../playwright/page-helpers';
+import { createWaitHelpers } from '../playwright/wait-helpers';
+import { createScrollHelpers } from '../playwright/scroll-helpers';
+import { createNetworkHelpers, createApiClient } from '../playwright/network-helpers';
+import { createViewportHelpers } from '../playwright/viewport-helpers';
+import { createLocatorBuilder } from '../playwright/locator-helpers';
+import { createDownloadHelpers } from '../playwright/download-helpers';
+import type {
+  PageHelpers,
+  WaitHelpers,
+  ScrollHelpers,
+  NetworkHelpers,
+  ApiClient,
+  ViewportHelpers,
+  LocatorBuilder,
+  DownloadHelpers,
+} from '../playwright';
+
+/**
+ * Helper instances bound to the current test's page and context
+ */
+export interface Helpers {
+  /**
+   * Attaches failed safe actions when the safe-action policy sets `attach`,
+   * and auto-dismiss counts in teardown
+   */
+  page: PageHelpers;
+  /** Attaches a screenshot to the test when a wait times out */
+  wait: WaitHelpers;
+  scroll: ScrollHelpers;
+  net: NetworkHelpers;
+  viewport: ViewportHelpers;
+  locator: LocatorBuilder;
+  /** Saves into the test's output directory */
+  downloads: DownloadHelpers;
+}
+
+/**
+ * Fixtures added by this module
+ */
+export interface HelperFixtures {
+  helpers: Helpers;
+  api: ApiClient;
+}
+
+/**
+ * Playwright test extended with helper fixtures
+ *
+ * Auto-dismiss handlers registered through `helpers.page`, routes registered
+ * through `helpers.net` and all context cookies are cleared in teardown so
+ * state never leaks between tests.
+ */
+export const test = base.extend<HelperFixtures>({
+  helpers: async ({ page, context }, use, testInfo) => {
+    const net = createNetworkHelpers(page, context);
+    const pageHelpers = createPageHelpers(page, context, { testInfo });
+
+    await use({
+      page: pageHelpers,
+      wait: createWaitHelpers(page, { testInfo, screenshot: true }),
+      scroll: createScrollHelpers(page),
+      net,
+      viewport: createViewportHelpers(page),
+      locator: createLocatorBuilder(page),
+      downloads: createDownloadHelpers(page, testInfo.outputPath('downloads')),
+    });
+
+    await pageHelpers.attachAutoDismissStats(testInfo);
+
+    try {
+      await pageHelpers.clearAutoDismiss();
+      await net.clearRoutes();
+      await context.clearCookies();
+    } catch {
+      // Page or context may already be closed
+    }
+  },
+
+  api: async ({ request }, use) => {
+    await use(createApiClient(request));
+  },
+});
+
+export { expect } from '@playwright/test';
@@ -85,6 +85,10 @@ const STATES: Record<string, Array<{ name: string; abbr: string }>> = {
  * Generate a street address
  */
 export function generateStreetAddress(options: AddressOptions = {}): string {
+  if (options.rng) {
+    return options.rng.run(() => generateStreetAddress({ ...options, rng: undefined }));
+  }
+
   const { includeApt = false } = options;
 
   const streetNumber = randomInt(1, 9999);
@@ -175,6 +179,10 @@ export function generatePostalCode(country: string = 'US', extended: boolean = f
  * Generate a full address
  */
 export function generateFullAddress(options: AddressOptions = {}): Address {
+  if (options.rng) {
+    return options.rng.run(() => generateFullAddress({ ...options, rng: undefined }));
+  }
+
   const { country = 'US', includeApt = false } = options;
   const countryUpper = country.toUpperCase() as 'US' | 'CA' | 'UK';
 
@@ -34,6 +34,10 @@ const CVC_LENGTHS: Record<string, number> = {
  * Generate a credit card number
  */
 export function generateCardNumber(options: CardOptions = {}): string {
+  if (options.rng) {
+    return options.rng.run(() => generateCardNumber({ ...options, rng: undefined }));
+  }
+
   const { type = 'visa', valid = true } = options;
 
   const prefixes = CARD_PREFIXES[type] || CARD_PREFIXES['visa'];
@@ -99,6 +103,10 @@ export function generateCVC(length: number = 3): string {
  * Generate complete card information
  */
 export function generateCard(options: CardOptions = {}): CardInfo {
+  if (options.rng) {
+    return options.rng.run(() => generateCard({ ...options, rng: undefined }));
+  }
+
   const type = options.type || 'visa';
   const cvcLength = CVC_LENGTHS[type] || 3;
 
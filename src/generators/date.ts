@@ -251,9 +251,10 @@ export function diffInBusinessDays(date1: Date, date2: Date): number {
 
 /**
  * Generate a random birth date for a person of given age range
+ * @param today - Reference date ages are counted from (default: now); pass a
+ * fixed date for fully reproducible output under a seed
  */
-export function randomBirthDate(minAge: number = 18, maxAge: number = 65): Date {
-  const today = new Date();
+export function randomBirthDate(minAge: number = 18, maxAge: number = 65, today: Date = new Date()): Date {
   const minDate = new Date(today.getFullYear() - maxAge, today.getMonth(), today.getDate());
   const maxDate = new Date(today.getFullYear() - minAge, today.getMonth(), today.getDate());
   return randomDate(minDate, maxDate);
@@ -299,3 +300,72 @@ export function parseDate(dateString: string): Date {
   throw new Error(`Unable to parse date: ${dateString}`);
 }
 
+/**
+ * Parse date from string using a format string
+ * Supported tokens: YYYY, YY, MM, M, DD, D, HH, H, mm, m, ss, s
+ * Returns null when the string does not match the format or is not a real date
+ */
+export function parseFormattedDate(dateString: string, format: string): Date | null {
+  const tokenPatterns: Record<string, string> = {
+    YYYY: '(\\d{4})',
+    YY: '(\\d{2})',
+    MM: '(\\d{2})',
+    M: '(\\d{1,2})',
+    DD: '(\\d{2})',
+    D: '(\\d{1,2})',
+    HH: '(\\d{2})',
+    H: '(\\d{1,2})',
+    mm: '(\\d{2})',
+    m: '(\\d{1,2})',
+    ss: '(\\d{2})',
+    s: '(\\d{1,2})',
+  };
+
+  // Longer tokens first to avoid partial matches
+  const tokenRegex = /YYYY|YY|MM|M|DD|D|HH|H|mm|m|ss|s/g;
+  const order: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(format)) !== null) {
+    source += format.slice(lastIndex, match.index).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    source += tokenPatterns[match[0]];
+    order.push(match[0]);
+    lastIndex = match.index + match[0].length;
+  }
+  source += format.slice(lastIndex).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  const parts = dateString.match(new RegExp(`^${source}$`));
+  if (!parts) {
+    return null;
+  }
+
+  const values: Record<string, number> = {};
+  order.forEach((token, i) => {
+    values[token] = parseInt(parts[i + 1], 10);
+  });
+
+  const year = values.YYYY ?? (values.YY !== undefined ? 2000 + values.YY : 1970);
+  const month = (values.MM ?? values.M ?? 1) - 1;
+  const day = values.DD ?? values.D ?? 1;
+  const hours = values.HH ?? values.H ?? 0;
+  const minutes = values.mm ?? values.m ?? 0;
+  const seconds = values.ss ?? values.s ?? 0;
+
+  const date = new Date(year, month, day, hours, minutes, seconds);
+
+  // Reject overflowed values such as 2024-02-31
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month ||
+    date.getDate() !== day ||
+    date.getHours() !== hours ||
+    date.getMinutes() !== minutes ||
+    date.getSeconds() !== seconds
+  ) {
+    return null;
+  }
+
+  return date;
+}
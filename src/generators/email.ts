@@ -21,6 +21,10 @@ const NAME_PREFIXES = [
  * Generate a random email address
  */
 export function generateEmail(options: EmailOptions = {}): string {
+  if (options.rng) {
+    return options.rng.run(() => generateEmail({ ...options, rng: undefined }));
+  }
+
   const {
     domain = 'test.com',
     prefix = 'user',
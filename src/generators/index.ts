@@ -20,6 +20,12 @@ export {
   randomUppercase,
   randomNumeric,
   CHARSETS,
+  createRng,
+  setSeed,
+  getSeed,
+  clearSeed,
+  generateSeed,
+  withRng,
 } from './random';
 
 // Password utilities
@@ -106,5 +112,6 @@ export {
   randomBirthDate,
   getAge,
   parseDate,
+  parseFormattedDate,
 } from './date';
 
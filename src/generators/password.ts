@@ -16,6 +16,10 @@ const CHARSETS = {
  * Generate a password with configurable options
  */
 export function generatePassword(options: PasswordOptions = {}): string {
+  if (options.rng) {
+    return options.rng.run(() => generatePassword({ ...options, rng: undefined }));
+  }
+
   const {
     length = 12,
     uppercase = true,
@@ -25,6 +25,10 @@ const COUNTRY_CODES: Record<string, string> = {
  * Generate a random phone number
  */
 export function generatePhone(options: PhoneOptions = {}): string {
+  if (options.rng) {
+    return options.rng.run(() => generatePhone({ ...options, rng: undefined }));
+  }
+
   const { country = 'US', format = 'dashed' } = options;
 
   const countryUpper = country.toUpperCase();
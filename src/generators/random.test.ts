@@ -0,0 +1,149 @@
+import { test, expect } from '@playwright/test';
+import {
+  randomInt,
+  randomFloat,
+  randomString,
+  randomHex,
+  randomUUID,
+  randomBoolean,
+  randomElement,
+  randomElements,
+  shuffle,
+  createRng,
+  setSeed,
+  getSeed,
+  clearSeed,
+  generateSeed,
+  withRng,
+  CHARSETS,
+} from './random';
+import { randomBirthDate } from './date';
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+test.afterEach(() => {
+  clearSeed();
+});
+
+test.describe('generators', () => {
+  test('keep values within their bounds', () => {
+    for (let i = 0; i < 200; i++) {
+      const int = randomInt(-3, 3);
+      expect(Number.isInteger(int) && int >= -3 && int <= 3).toBe(true);
+
+      const float = randomFloat(1, 2, 3);
+      expect(float).toBeGreaterThanOrEqual(1);
+      expect(float).toBeLessThanOrEqual(2);
+      expect(Math.round(float * 1000)).toBeCloseTo(float * 1000, 6);
+    }
+    expect(randomInt(7, 7)).toBe(7);
+  });
+
+  test('build strings from the given charset', () => {
+    expect(randomString(0)).toBe('');
+    expect(randomString(50, 'ab')).toMatch(/^[ab]{50}$/);
+    expect(randomHex(32)).toMatch(/^[0-9a-f]{32}$/);
+    expect([...randomString(100)].every((c) => CHARSETS.alphanumeric.includes(c))).toBe(true);
+  });
+
+  test('generate v4 UUIDs with and without a seed', () => {
+    expect(randomUUID()).toMatch(UUID_V4);
+    setSeed(1);
+    expect(randomUUID()).toMatch(UUID_V4);
+  });
+
+  test('honour boolean probabilities at the extremes', () => {
+    expect(Array.from({ length: 20 }, () => randomBoolean(0)).some(Boolean)).toBe(false);
+    expect(Array.from({ length: 20 }, () => randomBoolean(1)).every(Boolean)).toBe(true);
+  });
+
+  test('pick, sample and shuffle without losing or duplicating elements', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+
+    expect(items).toContain(randomElement(items));
+    const sample = randomElements(items, 4);
+    expect(new Set(sample).size).toBe(4);
+    expect(sample.every((n) => items.includes(n))).toBe(true);
+
+    const shuffled = shuffle(items);
+    expect(shuffled).not.toBe(items);
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  test('reject invalid arguments', () => {
+    expect(() => randomInt(2, 1)).toThrow('min must be less than or equal to max');
+    expect(() => randomFloat(2, 1)).toThrow('min must be less than or equal to max');
+    expect(() => randomString(-1)).toThrow('length must be non-negative');
+    expect(() => randomBoolean(1.5)).toThrow('probability must be between 0 and 1');
+    expect(() => randomElement([])).toThrow('Cannot get random element from empty array');
+    expect(() => randomElements([1], 2)).toThrow('count cannot be greater than array length');
+  });
+});
+
+test.describe('seeding', () => {
+  const draw = () => [randomInt(0, 1e9), randomString(12), randomUUID(), shuffle([1, 2, 3, 4, 5])];
+
+  test('setSeed makes every generator repeatable', () => {
+    expect(setSeed(42)).toBe(42);
+    expect(getSeed()).toBe(42);
+    const first = draw();
+
+    setSeed(42);
+    expect(draw()).toEqual(first);
+
+    setSeed(43);
+    expect(draw()).not.toEqual(first);
+  });
+
+  test('hashes string seeds and normalizes numbers to 32 bits', () => {
+    expect(setSeed('checkout')).toBe(createRng('checkout').seed);
+    expect(createRng('checkout').seed).not.toBe(createRng('checkouts').seed);
+    expect(createRng(-1).seed).toBe(0xffffffff);
+    expect(createRng(1.9).seed).toBe(1);
+    expect(() => createRng(NaN)).toThrow('seed must be a finite number');
+  });
+
+  test('clearSeed returns to Math.random', () => {
+    setSeed(1);
+    clearSeed();
+    expect(getSeed()).toBeUndefined();
+  });
+
+  test('createRng is isolated from the global generator', () => {
+    setSeed(7);
+    const expected = [randomInt(0, 1e9), randomInt(0, 1e9)];
+
+    setSeed(7);
+    const rng = createRng('isolated');
+    const first = randomInt(0, 1e9);
+    rng.randomInt(0, 1e9);
+    rng.randomString(10);
+    expect([first, randomInt(0, 1e9)]).toEqual(expected);
+
+    const a = createRng(99);
+    const b = createRng(99);
+    expect([a.randomFloat(0, 1, 6), a.randomUUID(), a.randomElements([1, 2, 3, 4], 2)])
+      .toEqual([b.randomFloat(0, 1, 6), b.randomUUID(), b.randomElements([1, 2, 3, 4], 2)]);
+  });
+
+  test('withRng runs other generators on the given source', () => {
+    const viaRng = withRng(createRng(5), () => randomBirthDate(20, 30, new Date(2024, 5, 15)));
+    const again = createRng(5).run(() => randomBirthDate(20, 30, new Date(2024, 5, 15)));
+
+    expect(viaRng).toEqual(again);
+    expect(viaRng.getTime()).toBeGreaterThanOrEqual(new Date(1994, 5, 15).getTime());
+    expect(viaRng.getTime()).toBeLessThanOrEqual(new Date(2004, 5, 15).getTime());
+    expect(withRng(undefined, () => 'unchanged')).toBe('unchanged');
+  });
+
+  test('generateSeed does not consume the seeded generator', () => {
+    setSeed(3);
+    const expected = randomInt(0, 1e9);
+
+    setSeed(3);
+    const seed = generateSeed();
+    expect(Number.isInteger(seed) && seed >= 0 && seed < 0x100000000).toBe(true);
+    expect(randomInt(0, 1e9)).toBe(expected);
+  });
+});
@@ -1,7 +1,21 @@
 /**
  * Random value generators - Generic utilities for generating random values
+ *
+ * All generators draw from a single active random source. By default this is
+ * Math.random; call setSeed() (or set PW_UTILS_SEED) to make every generator
+ * deterministic, or use createRng(seed) for an isolated seeded generator.
+ * Seeding does not pin the clock, so generators that read the current date
+ * are only reproducible on the same day (or with an explicit reference date).
  */
 
+import type { Rng } from '../types';
+
+/** Environment variable read at load time to seed the global generator */
+const SEED_ENV_VAR = 'PW_UTILS_SEED';
+
+let activeSource: () => number = Math.random;
+let globalRng: Rng | null = null;
+
 const CHARSETS = {
   alpha: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
   alphaLower: 'abcdefghijklmnopqrstuvwxyz',
@@ -19,7 +33,7 @@ export function randomInt(min: number, max: number): number {
   if (min > max) {
     throw new Error('min must be less than or equal to max');
   }
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(activeSource() * (max - min + 1)) + min;
 }
 
 /**
@@ -30,7 +44,7 @@ export function randomFloat(min: number, max: number, decimals: number = 2): num
   if (min > max) {
     throw new Error('min must be less than or equal to max');
   }
-  const value = Math.random() * (max - min) + min;
+  const value = activeSource() * (max - min) + min;
   const factor = Math.pow(10, decimals);
   return Math.round(value * factor) / factor;
 }
@@ -76,13 +90,13 @@ export function randomHex(length: number): string {
  * Generate a random UUID v4
  */
 export function randomUUID(): string {
-  // Use crypto if available, otherwise fall back to Math.random
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+  // Use crypto if available and no seed is active, otherwise use the active source
+  if (activeSource === Math.random && typeof crypto !== 'undefined' && crypto.randomUUID) {
     return crypto.randomUUID();
   }
   // Fallback implementation
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
+    const r = (activeSource() * 16) | 0;
     const v = c === 'x' ? r : (r & 0x3) | 0x8;
     return v.toString(16);
   });
@@ -96,7 +110,7 @@ export function randomBoolean(probability: number = 0.5): boolean {
   if (probability < 0 || probability > 1) {
     throw new Error('probability must be between 0 and 1');
   }
-  return Math.random() < probability;
+  return activeSource() < probability;
 }
 
 /**
@@ -157,8 +171,134 @@ export function randomNumeric(length: number): string {
   return randomString(length, CHARSETS.numeric);
 }
 
+// ============================================================================
+// Seeded Random Sources
+// ============================================================================
+
+/**
+ * Create an isolated seeded generator with the same API as this module
+ * @param seed - Number or string; strings are hashed to a 32-bit seed
+ */
+export function createRng(seed: number | string): Rng {
+  const normalizedSeed = normalizeSeed(seed);
+  const next = mulberry32(normalizedSeed);
+
+  const run = <T>(fn: () => T): T => {
+    const previous = activeSource;
+    activeSource = next;
+    try {
+      return fn();
+    } finally {
+      activeSource = previous;
+    }
+  };
+
+  return {
+    seed: normalizedSeed,
+    next,
+    run,
+    randomInt: (min, max) => run(() => randomInt(min, max)),
+    randomFloat: (min, max, decimals) => run(() => randomFloat(min, max, decimals)),
+    randomString: (length, charset) => run(() => randomString(length, charset)),
+    randomAlpha: (length) => run(() => randomAlpha(length)),
+    randomAlphanumeric: (length) => run(() => randomAlphanumeric(length)),
+    randomHex: (length) => run(() => randomHex(length)),
+    randomUUID: () => run(() => randomUUID()),
+    randomBoolean: (probability) => run(() => randomBoolean(probability)),
+    randomElement: (array) => run(() => randomElement(array)),
+    randomElements: (array, count) => run(() => randomElements(array, count)),
+    shuffle: (array) => run(() => shuffle(array)),
+    randomLowercase: (length) => run(() => randomLowercase(length)),
+    randomUppercase: (length) => run(() => randomUppercase(length)),
+    randomNumeric: (length) => run(() => randomNumeric(length)),
+  };
+}
+
+/**
+ * Seed the global random source used by every generator
+ * Each Playwright worker is a separate process, so this is worker-scoped
+ */
+export function setSeed(seed: number | string): number {
+  globalRng = createRng(seed);
+  activeSource = globalRng.next;
+  return globalRng.seed;
+}
+
+/**
+ * Get the seed of the global random source, or undefined when unseeded
+ */
+export function getSeed(): number | undefined {
+  return globalRng?.seed;
+}
+
+/**
+ * Restore the global random source to Math.random
+ */
+export function clearSeed(): void {
+  globalRng = null;
+  activeSource = Math.random;
+}
+
+/**
+ * Generate a fresh 32-bit seed (always uses Math.random)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Run a function with the given generator as the active source
+ * Falls through to the current source when no generator is given
+ */
+export function withRng<T>(rng: Rng | undefined, fn: () => T): T {
+  return rng ? rng.run(fn) : fn();
+}
+
 /**
  * Export charsets for custom use
  */
 export { CHARSETS };
 
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert a number or string seed into an unsigned 32-bit integer
+ */
+function normalizeSeed(seed: number | string): number {
+  if (typeof seed === 'number') {
+    if (!Number.isFinite(seed)) {
+      throw new Error('seed must be a finite number');
+    }
+    return Math.trunc(seed) >>> 0;
+  }
+
+  // FNV-1a hash for string seeds
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG - small, fast and good enough for test data
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+// Pick up a seed from the environment so CI failures can be replayed locally
+if (typeof process !== 'undefined' && process.env?.[SEED_ENV_VAR]) {
+  const envSeed = process.env[SEED_ENV_VAR] as string;
+  setSeed(/^\d+$/.test(envSeed) ? Number(envSeed) : envSeed);
+}
+
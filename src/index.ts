@@ -15,6 +15,7 @@
 // ============================================================================
 export type {
   // Generator types
+  Rng,
   PasswordOptions,
   PasswordStrength,
   PhoneOptions,
@@ -26,17 +27,108 @@ export type {
   CardInfo,
   // File types
   CSVOptions,
+  CSVReadOptions,
+  CSVColumnType,
+  CSVColumnSchema,
+  CSVSchema,
+  CSVCellError,
   CSVValidationOptions,
   CSVValidationResult,
+  CSVSource,
+  CSVCompareOptions,
+  CSVCellDiff,
+  CSVRowDiff,
+  CSVComparisonResult,
+  XLSXReadOptions,
+  XLSXWriteOptions,
   DownloadOptions,
+  DownloadCaptureOptions,
+  DownloadResult,
   // Playwright types
   ClickOptions,
   FillOptions,
   ScrollOptions,
   WaitOptions,
+  WaitObservation,
+  BackoffStrategy,
+  RetryCondition,
+  RetryContext,
+  RetryPolicy,
+  ApiClientOptions,
+  ApiAuth,
+  ApiRequestConfig,
+  ApiRequestInterceptor,
+  ApiResponseInterceptor,
+  ApiResponse,
+  ApiResponseType,
+  JsonSchema,
+  JsonSchemaType,
+  JsonSchemaValidationError,
+  JsonSchemaValidationResult,
   RequestOptions,
   CookieOptions,
   MockResponse,
+  MockErrorRule,
+  MockResourceOptions,
+  // Network recording types
+  UrlFilter,
+  HarEntry,
+  HarFile,
+  HarMatchOptions,
+  HarRecordOptions,
+  HarReplayOptions,
+  HarReplayReport,
+  GraphQLErrorEntry,
+  GraphQLResponseBody,
+  GraphQLOperation,
+  GraphQLMatchOptions,
+  GraphQLMockOptions,
+  GraphQLMockResult,
+  GraphQLWaitOptions,
+  GraphQLCapture,
+  RecordedRequest,
+  RequestBodyMatcher,
+  RequestMatcher,
+  NetworkRecorderOptions,
+  NetworkLog,
+  NetworkProfileName,
+  NetworkConditions,
+  ThrottleOptions,
+  NetworkErrorCode,
+  FaultCondition,
+  FaultRule,
+  FaultType,
+  FaultEvent,
+  FaultSummary,
+  FaultInjectionOptions,
+  RouteScope,
+  RouteOptions,
+  RouteHandleInfo,
+  SessionCookie,
+  IndexedDBIndexSnapshot,
+  IndexedDBStoreSnapshot,
+  IndexedDBSnapshot,
+  OriginStorageSnapshot,
+  SessionState,
+  SessionStateOptions,
+  WebSocketScriptStep,
+  WebSocketMockOptions,
+  WebSocketFrame,
+  WebSocketMessageMatcher,
+  SSEEvent,
+  SSEMockOptions,
+  FormValues,
+  FormFieldKind,
+  FillFormOptions,
+  SafeActionOptions,
+  SafeAction,
+  ElementState,
+  ActionResult,
+  CoveringElement,
+  ClickabilityReport,
+  AutoDismissMode,
+  AutoDismissOptions,
+  AutoDismissStats,
 } from './types';
 
 // ============================================================================
@@ -59,6 +151,12 @@ export {
   randomUppercase,
   randomNumeric,
   CHARSETS,
+  createRng,
+  setSeed,
+  getSeed,
+  clearSeed,
+  generateSeed,
+  withRng,
   // Password
   generatePassword,
   generateSecurePassword,
@@ -127,6 +225,7 @@ export {
   randomBirthDate,
   getAge,
   parseDate,
+  parseFormattedDate,
 } from './generators';
 
 // ============================================================================
@@ -215,12 +314,29 @@ export {
   readCSV,
   readCSVSync,
   parseCSV,
+  parseCSVRows,
+  streamCSV,
   writeCSV,
   writeCSVSync,
   stringifyCSV,
   validateCSV,
   getCSVHeaders,
   countCSVRows,
+  // CSV schema
+  validateCSVSchema,
+  validateCSVRow,
+  CSVSchemaError,
+  // CSV comparison
+  compareCSV,
+  compareCSVRecords,
+  // Excel
+  readXLSX,
+  readXLSXSync,
+  parseXLSX,
+  writeXLSX,
+  writeXLSXSync,
+  stringifyXLSX,
+  getXLSXSheetNames,
   // Download/File
   waitForDownload,
   waitForFileExists,
@@ -250,6 +366,11 @@ export {
   // Page helpers
   PageHelpers,
   createPageHelpers,
+  setSafeActionPolicy,
+  getSafeActionPolicy,
+  diagnoseClickability,
+  autoDismiss,
+  formatAutoDismissStats,
   BREAKPOINTS,
   // Locator helpers
   buildLocator,
@@ -278,6 +399,14 @@ export {
   createWaitHelpers,
   poll,
   retry,
+  WaitTimeoutError,
+  // JSON schema
+  validateJsonSchema,
+  assertJsonSchema,
+  JsonSchemaError,
+  // Retry policy
+  runWithRetry,
+  computeDelay,
   // Scroll helpers
   ScrollHelpers,
   createScrollHelpers,
@@ -286,6 +415,42 @@ export {
   createNetworkHelpers,
   ApiClient,
   createApiClient,
+  ApiError,
+  // Network throttling
+  throttleNetwork,
+  NETWORK_PROFILES,
+  // Route registry
+  RouteRegistry,
+  createRouteRegistry,
+  getRouteRegistry,
+  // Session state
+  captureSessionState,
+  applySessionState,
+  saveSessionState,
+  restoreSessionState,
+  // WebSocket & SSE mocks
+  mockWebSocket,
+  mockSSE,
+  formatSSEEvent,
+  // Form helpers
+  fillForm,
+  describeFormFields,
+  // Fault injection
+  injectFaults,
+  // Network recorder
+  NetworkRecorder,
+  createNetworkRecorder,
+  // GraphQL helpers
+  mockGraphQL,
+  waitForGraphQL,
+  captureGraphQL,
+  parseGraphQLRequest,
+  GraphQLError,
+  // Download helpers
+  DownloadHelpers,
+  createDownloadHelpers,
+  // Seed helpers
+  useSeededRandom,
   // Viewport helpers
   ViewportHelpers,
   createViewportHelpers,
@@ -297,5 +462,23 @@ export {
   getDesktopViewports,
 } from './playwright';
 
-export type { ViewportName, BreakpointName } from './playwright';
+export type {
+  ViewportName,
+  BreakpointName,
+  WaitDiagnosticsOptions,
+  SafeActionPolicy,
+  OverlayHandler,
+  AutoDismiss,
+  AutoDismissAction,
+  ApiRequestOptions,
+  GraphQLMock,
+  NetworkThrottle,
+  FaultInjector,
+  RouteHandle,
+  WebSocketMock,
+  SSEMock,
+  HarRecorder,
+  HarReplay,
+  MockResource,
+} from './playwright';
 
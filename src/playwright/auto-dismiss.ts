@@ -0,0 +1,166 @@
+/**
+ * Playwright Auto-Dismiss
+ * Dismiss popups (cookie banners, newsletter modals, surveys) whenever they appear
+ */
+
+import type { Page, Locator } from '@playwright/test';
+import type { AutoDismissMode, AutoDismissOptions, AutoDismissStats } from '../types';
+
+const DEFAULT_POLL_INTERVAL = 250;
+const HIDE_TIMEOUT = 2000;
+const ACTION_TIMEOUT = 2000;
+
+/**
+ * Element to click to dismiss a popup, or a custom action
+ */
+export type AutoDismissAction = Locator | ((popup: Locator) => Promise<void>);
+
+/**
+ * Handle to an auto-dismiss handler
+ */
+export interface AutoDismiss {
+  readonly name: string;
+  readonly mode: AutoDismissMode;
+  /** Times the action ran successfully */
+  readonly fired: number;
+  /** Times the action threw */
+  readonly failures: number;
+  /** False once stopped, the page closed or `times` was reached */
+  readonly active: boolean;
+  /** Snapshot for reports */
+  stats(): AutoDismissStats;
+  /** Unregister the handler */
+  stop(): Promise<void>;
+}
+
+/**
+ * Run an action whenever the popup becomes visible
+ *
+ * Uses page.addLocatorHandler (Playwright 1.44+), which runs the action before
+ * any Playwright action or assertion that the popup would block. Older
+ * versions, or `polling: true`, check visibility every `pollInterval` ms
+ * instead, so the popup is also dismissed between actions.
+ *
+ * In locator-handler mode an action that throws fails the action that
+ * triggered it; in polling mode it is retried on the next check.
+ *
+ * @example
+ * const cookies = await autoDismiss(page, 'cookies', page.locator('#cookie-banner'),
+ *   page.getByRole('button', { name: 'Accept all' }));
+ * await autoDismiss(page, 'survey', page.locator('.survey-modal'), (modal) => modal.press('Escape'), { times: 1 });
+ * // ...
+ * console.log(cookies.fired);
+ */
+export async function autoDismiss(
+  page: Page,
+  name: string,
+  popup: Locator,
+  action: AutoDismissAction,
+  options: AutoDismissOptions = {}
+): Promise<AutoDismiss> {
+  const { times, noWaitAfter = false, polling = false, pollInterval = DEFAULT_POLL_INTERVAL } = options;
+  const mode: AutoDismissMode =
+    !polling && typeof page.addLocatorHandler === 'function' && typeof page.removeLocatorHandler === 'function'
+      ? 'locator-handler'
+      : 'polling';
+
+  let fired = 0;
+  let failures = 0;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const exhausted = () => times !== undefined && fired >= times;
+  const isActive = () => !stopped && !exhausted() && !page.isClosed();
+
+  const run = async (target: Locator) => {
+    try {
+      if (typeof action === 'function') {
+        await action(target);
+      } else {
+        await action.click({ timeout: ACTION_TIMEOUT });
+      }
+      fired++;
+    } catch (error) {
+      failures++;
+      throw error;
+    }
+  };
+
+  if (mode === 'locator-handler') {
+    await page.addLocatorHandler(popup, run, { times, noWaitAfter });
+  } else {
+    const tick = async () => {
+      timer = undefined;
+      if (!isActive()) return;
+
+      if (await popup.first().isVisible().catch(() => false)) {
+        try {
+          await run(popup);
+          if (!noWaitAfter) {
+            await popup.first().waitFor({ state: 'hidden', timeout: HIDE_TIMEOUT }).catch(() => undefined);
+          }
+        } catch {
+          // Popup went away or the action failed; try again on the next check
+        }
+      }
+
+      if (isActive()) {
+        timer = setTimeout(() => void tick(), pollInterval);
+      }
+    };
+    timer = setTimeout(() => void tick(), 0);
+  }
+
+  const stats = (): AutoDismissStats => ({ name, mode, fired, failures, active: isActive() });
+
+  return {
+    name,
+    mode,
+    get fired() {
+      return fired;
+    },
+    get failures() {
+      return failures;
+    },
+    get active() {
+      return isActive();
+    },
+    stats,
+    async stop() {
+      if (stopped) return;
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      if (mode === 'locator-handler' && !page.isClosed()) {
+        await page.removeLocatorHandler(popup).catch(() => undefined);
+      }
+    },
+  };
+}
+
+/**
+ * Format auto-dismiss stats as report lines
+ * @example
+ * // "cookies: fired 2 times (locator-handler)"
+ */
+export function formatAutoDismissStats(stats: AutoDismissStats[]): string {
+  if (stats.length === 0) {
+    return 'No auto-dismiss handlers registered';
+  }
+  return stats
+    .map((entry) => {
+      const failed = entry.failures > 0 ? `, failed ${entry.failures} ${plural(entry.failures)}` : '';
+      return `${entry.name}: fired ${entry.fired} ${plural(entry.fired)}${failed} (${entry.mode})`;
+    })
+    .join('\n');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function plural(count: number): string {
+  return count === 1 ? 'time' : 'times';
+}
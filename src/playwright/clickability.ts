@@ -0,0 +1,108 @@
+/**
+ * Playwright Clickability Diagnostics
+ * Explain why an element cannot be clicked, including what covers it
+ */
+
+import type { Locator } from '@playwright/test';
+import type { ClickabilityReport, CoveringElement, ElementState } from '../types';
+import { SUGGESTION_ATTRIBUTES, selectorSuggestions } from './locator-helpers';
+
+const STATE_TIMEOUT = 1000;
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Check whether a click on the element would land on it
+ *
+ * Hit-tests the element's center with `document.elementFromPoint` (after
+ * scrolling it into view) and, when something else is on top, reports that
+ * element with the same selector suggestions suggestSelector() gives. The
+ * covering element is read in the same evaluate, so nothing is left on the page.
+ *
+ * @example
+ * const report = await diagnoseClickability(page.locator('#checkout'));
+ * if (report.reason === 'covered') {
+ *   console.log(`Covered by ${report.coveredBy?.selectors[0] ?? report.coveredBy?.description}`);
+ * }
+ */
+export async function diagnoseClickability(locator: Locator): Promise<ClickabilityReport> {
+  const count = await locator.count().catch(() => 0);
+  if (count === 0) {
+    return {
+      clickable: false,
+      reason: 'not-attached',
+      state: { attached: false, count, visible: false, enabled: false },
+    };
+  }
+
+  const element = locator.first();
+  const visible = await element.isVisible().catch(() => false);
+  const enabled = await element.isEnabled({ timeout: STATE_TIMEOUT }).catch(() => false);
+  const state: ElementState = { attached: true, count, visible, enabled };
+
+  let point: ClickabilityReport['point'];
+  let coveredBy: CoveringElement | undefined;
+  if (visible) {
+    await element.scrollIntoViewIfNeeded({ timeout: STATE_TIMEOUT }).catch(() => undefined);
+    const hit = await hitTest(element);
+    point = hit?.point;
+    coveredBy = hit?.coveredBy;
+    if (coveredBy) {
+      state.coveredBy = coveredBy.selectors[0] ?? coveredBy.description;
+    }
+  }
+
+  const reason: ClickabilityReport['reason'] =
+    count > 1 ? 'multiple-matches'
+      : !visible ? 'hidden'
+        : !enabled ? 'disabled'
+          : coveredBy ? 'covered'
+            : undefined;
+
+  return {
+    clickable: reason === undefined,
+    ...(reason ? { reason } : {}),
+    state,
+    ...(point ? { point } : {}),
+    ...(coveredBy ? { coveredBy } : {}),
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function hitTest(
+  element: Locator
+): Promise<{ point: { x: number; y: number }; coveredBy?: CoveringElement } | null> {
+  const hit = await element
+    .evaluate(
+      (el, { names, maxText }) => {
+        const rect = el.getBoundingClientRect();
+        const point = { x: Math.round(rect.left + rect.width / 2), y: Math.round(rect.top + rect.height / 2) };
+        const top = document.elementFromPoint(point.x, point.y);
+        if (!top || top === el || el.contains(top)) {
+          return { point, cover: null };
+        }
+
+        const id = top.id ? `#${top.id}` : '';
+        const classes = Array.from(top.classList).slice(0, 3).map((c) => `.${c}`).join('');
+        return {
+          point,
+          cover: {
+            description: `${top.tagName.toLowerCase()}${id}${classes}`,
+            text: (top.textContent ?? '').replace(/\s+/g, ' ').trim().slice(0, maxText),
+            attributes: Object.fromEntries(names.map((name) => [name, top.getAttribute(name)])),
+          },
+        };
+      },
+      { names: SUGGESTION_ATTRIBUTES, maxText: MAX_TEXT_LENGTH },
+      { timeout: STATE_TIMEOUT }
+    )
+    .catch(() => null);
+
+  if (!hit) return null;
+  if (!hit.cover) return { point: hit.point };
+
+  const { attributes, description, text } = hit.cover;
+  return { point: hit.point, coveredBy: { selectors: selectorSuggestions(attributes), description, text } };
+}
@@ -0,0 +1,218 @@
+/**
+ * Playwright Download Helpers
+ * Capture, save, verify and parse browser downloads
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page, Response } from '@playwright/test';
+import type { DownloadCaptureOptions, DownloadResult } from '../types';
+import { ensureDirectoryAsync, getUniqueFilename } from '../file/download';
+import { parseCSV } from '../file/csv';
+import { parseXLSX } from '../file/xlsx';
+
+const DEFAULT_DOWNLOAD_DIR = 'downloads';
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+const TEXT_EXTENSIONS = ['.txt', '.log', '.xml', '.html', '.md', '.tsv'];
+
+/**
+ * DownloadHelpers - Capture downloads triggered by page actions
+ */
+export class DownloadHelpers {
+  protected readonly dir: string;
+
+  /**
+   * @param dir - Directory downloads are saved into (default: ./downloads)
+   */
+  constructor(protected readonly page: Page, dir: string = DEFAULT_DOWNLOAD_DIR) {
+    this.dir = path.isAbsolute(dir) ? dir : path.resolve(process.cwd(), dir);
+  }
+
+  /** Get the directory downloads are saved into */
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Run an action, capture the download it triggers and save it
+   *
+   * The file is saved under its suggested filename (suffixed on collision),
+   * verified against the size/extension/content-type options and parsed
+   * according to `parse`.
+   *
+   * @example
+   * const { content } = await downloads.captureDownload(
+   *   () => page.getByRole('button', { name: 'Export' }).click(),
+   *   { extension: '.csv' }
+   * );
+   */
+  async captureDownload<T = unknown>(
+    action: () => Promise<unknown>,
+    options: DownloadCaptureOptions = {}
+  ): Promise<DownloadResult<T>> {
+    const { timeout = 30000, parse = 'auto' } = options;
+
+    const responses: Response[] = [];
+    const onResponse = (response: Response) => responses.push(response);
+    this.page.on('response', onResponse);
+
+    let download;
+    try {
+      [download] = await Promise.all([
+        this.page.waitForEvent('download', { timeout }),
+        action(),
+      ]);
+    } finally {
+      this.page.off('response', onResponse);
+    }
+
+    const failure = await download.failure();
+    if (failure) {
+      throw new Error(`Download failed: ${failure} (${download.url()})`);
+    }
+
+    const dir = options.dir
+      ? path.isAbsolute(options.dir) ? options.dir : path.resolve(process.cwd(), options.dir)
+      : this.dir;
+    await ensureDirectoryAsync(dir);
+
+    const suggestedFilename = download.suggestedFilename();
+    const savePath = getUniqueFilename(path.join(dir, options.filename ?? suggestedFilename));
+    await download.saveAs(savePath);
+
+    const extension = path.extname(suggestedFilename).toLowerCase();
+    const size = (await fs.promises.stat(savePath)).size;
+    const contentType = findContentType(download.url(), responses) ?? MIME_TYPES[extension] ?? 'application/octet-stream';
+
+    verifyDownload(suggestedFilename, { size, extension, contentType }, options);
+
+    const buffer = await fs.promises.readFile(savePath);
+    const content = parseContent(buffer, parse === 'auto' ? detectFormat(extension, contentType) : parse, options);
+
+    return {
+      path: savePath,
+      suggestedFilename,
+      url: download.url(),
+      size,
+      extension,
+      contentType,
+      content: content as T,
+    };
+  }
+
+  /**
+   * Capture a download and return its parsed CSV rows
+   */
+  async captureCSV<T = Record<string, string>>(
+    action: () => Promise<unknown>,
+    options: Omit<DownloadCaptureOptions, 'parse'> = {}
+  ): Promise<T[]> {
+    const result = await this.captureDownload<T[]>(action, { ...options, parse: 'csv' });
+    return result.content;
+  }
+
+  /**
+   * Capture a download and return its parsed JSON
+   */
+  async captureJSON<T = unknown>(
+    action: () => Promise<unknown>,
+    options: Omit<DownloadCaptureOptions, 'parse'> = {}
+  ): Promise<T> {
+    const result = await this.captureDownload<T>(action, { ...options, parse: 'json' });
+    return result.content;
+  }
+}
+
+/**
+ * Create DownloadHelpers instance
+ */
+export function createDownloadHelpers(page: Page, dir?: string): DownloadHelpers {
+  return new DownloadHelpers(page, dir);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function findContentType(url: string, responses: Response[]): string | undefined {
+  const response = [...responses].reverse().find((r) => r.url() === url);
+  const header = response?.headers()['content-type'];
+  return header ? normalizeMediaType(header) : undefined;
+}
+
+/**
+ * Lowercase a content type and drop parameters such as `; charset=utf-8`
+ */
+function normalizeMediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+function verifyDownload(
+  filename: string,
+  actual: { size: number; extension: string; contentType: string },
+  options: DownloadCaptureOptions
+): void {
+  const { minSize = 1, maxSize, extension, contentType } = options;
+
+  if (actual.size < minSize) {
+    throw new Error(`Download '${filename}' is ${actual.size} bytes, expected at least ${minSize}`);
+  }
+  if (maxSize !== undefined && actual.size > maxSize) {
+    throw new Error(`Download '${filename}' is ${actual.size} bytes, expected at most ${maxSize}`);
+  }
+
+  if (extension !== undefined) {
+    const allowed = (Array.isArray(extension) ? extension : [extension])
+      .map((ext) => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+    if (!allowed.includes(actual.extension)) {
+      throw new Error(`Download '${filename}' has extension '${actual.extension}', expected ${allowed.join(' or ')}`);
+    }
+  }
+
+  if (contentType !== undefined) {
+    const matches = typeof contentType === 'string'
+      ? actual.contentType === normalizeMediaType(contentType)
+      : contentType.test(actual.contentType);
+    if (!matches) {
+      throw new Error(`Download '${filename}' has content type '${actual.contentType}', expected ${contentType}`);
+    }
+  }
+}
+
+function detectFormat(extension: string, contentType: string): NonNullable<DownloadCaptureOptions['parse']> {
+  if (extension === '.csv' || contentType === 'text/csv') return 'csv';
+  if (extension === '.json' || contentType === 'application/json') return 'json';
+  if (extension === '.xlsx') return 'xlsx';
+  if (TEXT_EXTENSIONS.includes(extension) || contentType.startsWith('text/')) return 'text';
+  return 'none';
+}
+
+function parseContent(buffer: Buffer, format: DownloadCaptureOptions['parse'], options: DownloadCaptureOptions): unknown {
+  switch (format) {
+    case 'csv':
+      return parseCSV(buffer.toString('utf8'), options.csv);
+    case 'json':
+      return JSON.parse(buffer.toString('utf8'));
+    case 'xlsx':
+      return parseXLSX(buffer);
+    case 'text':
+      return buffer.toString('utf8');
+    default:
+      return buffer;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Playwright Fault Injection
+ * Simulate unreliable backends with per-pattern fault rules
+ */
+
+import type { Page, Route } from '@playwright/test';
+import type {
+  UrlFilter,
+  FaultRule,
+  FaultEvent,
+  FaultSummary,
+  FaultType,
+  FaultInjectionOptions,
+  Rng,
+} from '../types';
+import { createRng, generateSeed } from '../generators/random';
+import { getRouteRegistry, extendRouteHandle } from './route-registry';
+import type { RouteHandle } from './route-registry';
+import { describeUrlFilter, matchesUrl, sleep } from './utils';
+
+/**
+ * Handle to active fault rules
+ */
+export interface FaultInjector extends RouteHandle {
+  /** Summary of matching calls and the faults that fired */
+  getSummary(): FaultSummary;
+  /** Let hung requests proceed to the network, or abort them */
+  release(action?: 'continue' | 'abort'): Promise<void>;
+  /** Number of requests currently hanging */
+  readonly hanging: number;
+  /** Remove the rules, continuing any hung requests (same as dispose) */
+  stop(): Promise<void>;
+}
+
+/**
+ * Inject faults into requests matching pattern
+ *
+ * Rules are checked in order for every matching call. Latency rules add delay
+ * and keep evaluating; the first other rule that fires decides the outcome.
+ * Calls where no rule fires fall through to other handlers or the network.
+ * Probabilities and latencies draw from a generator of their own, so faults
+ * never shift seeded test data; pass `seed` to make them reproducible.
+ *
+ * @example
+ * const faults = await injectFaults(page, '/api/', [
+ *   { type: 'latency', min: 100, max: 1500 },
+ *   { type: 'status', status: 503, probability: 0.3 },
+ *   { type: 'abort', errorCode: 'connectionreset', nth: 2 },
+ * ]);
+ * // ...
+ * console.log(faults.getSummary().text);
+ */
+export async function injectFaults(
+  page: Page,
+  pattern: UrlFilter,
+  rules: FaultRule[],
+  options: FaultInjectionOptions = {}
+): Promise<FaultInjector> {
+  const rng = createRng(options.seed ?? generateSeed());
+  const triggered: FaultEvent[] = [];
+  const fireCounts = rules.map(() => 0);
+  const hung = new Set<(action: 'continue' | 'abort') => void>();
+  let calls = 0;
+
+  const matcher = (url: URL): boolean => matchesUrl(url.href, pattern);
+
+  const handler = async (route: Route) => {
+    const request = route.request();
+    const method = request.method().toUpperCase();
+    const call = ++calls;
+
+    for (const [index, rule] of rules.entries()) {
+      if (!shouldFire(rule, method, call, fireCounts[index], rng)) continue;
+
+      fireCounts[index]++;
+      triggered.push({ rule: index, type: rule.type, method, url: request.url(), call });
+
+      switch (rule.type) {
+        case 'latency':
+          await sleep(rng.randomInt(rule.min, rule.max));
+          continue;
+
+        case 'status':
+          await route.fulfill({
+            status: rule.status,
+            headers: rule.headers,
+            contentType: typeof rule.body === 'object' ? 'application/json' : 'text/plain',
+            body: typeof rule.body === 'object' ? JSON.stringify(rule.body) : rule.body ?? '',
+          });
+          return;
+
+        case 'abort':
+          await route.abort(rule.errorCode ?? 'failed');
+          return;
+
+        case 'hang': {
+          const action = await new Promise<'continue' | 'abort'>((resolve) => hung.add(resolve));
+          await (action === 'abort' ? route.abort('timedout') : route.fallback());
+          return;
+        }
+
+        case 'truncate': {
+          const response = await route.fetch();
+          const body = await response.body();
+          // route.fetch() decodes the body, so the encoding header no longer applies
+          const headers = { ...response.headers() };
+          delete headers['content-length'];
+          delete headers['content-encoding'];
+          await route.fulfill({
+            response,
+            headers,
+            body: body.subarray(0, rule.bytes ?? Math.floor(body.length / 2)),
+          });
+          return;
+        }
+      }
+    }
+
+    await route.fallback();
+  };
+
+  const release = async (action: 'continue' | 'abort' = 'continue') => {
+    const waiting = [...hung];
+    hung.clear();
+    waiting.forEach((resolve) => resolve(action));
+  };
+
+  const { times, scope } = options;
+  const routeHandle = await getRouteRegistry(page).add('injectFaults', matcher, handler, { times, scope }, {
+    description: describeUrlFilter(pattern),
+    onDispose: () => release('continue'),
+  });
+
+  return extendRouteHandle<FaultInjector>(routeHandle, {
+    getSummary() {
+      return buildSummary(calls, triggered, rules);
+    },
+    release,
+    get hanging() {
+      return hung.size;
+    },
+    stop: routeHandle.dispose,
+  });
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function shouldFire(rule: FaultRule, method: string, call: number, fired: number, rng: Rng): boolean {
+  if (rule.method && rule.method.toUpperCase() !== method) return false;
+  if (rule.times !== undefined && fired >= rule.times) return false;
+  if (rule.nth !== undefined) {
+    const calls = Array.isArray(rule.nth) ? rule.nth : [rule.nth];
+    if (!calls.includes(call)) return false;
+  }
+  return rule.probability === undefined || rule.probability >= 1 || rng.randomBoolean(rule.probability);
+}
+
+function buildSummary(calls: number, triggered: FaultEvent[], rules: FaultRule[]): FaultSummary {
+  const byType: Partial<Record<FaultType, number>> = {};
+  for (const event of triggered) {
+    byType[event.type] = (byType[event.type] ?? 0) + 1;
+  }
+
+  const lines = [`${triggered.length} fault(s) triggered across ${calls} matching call(s)`];
+  rules.forEach((rule, index) => {
+    const count = triggered.filter((event) => event.rule === index).length;
+    lines.push(`  [${index}] ${describeRule(rule)}: ${count}`);
+  });
+
+  return { calls, triggered: [...triggered], byType, text: lines.join('\n') };
+}
+
+function describeRule(rule: FaultRule): string {
+  switch (rule.type) {
+    case 'status':
+      return `status ${rule.status}`;
+    case 'abort':
+      return `abort (${rule.errorCode ?? 'failed'})`;
+    case 'latency':
+      return `latency ${rule.min}-${rule.max}ms`;
+    case 'truncate':
+      return `truncate${rule.bytes !== undefined ? ` to ${rule.bytes} bytes` : ''}`;
+    default:
+      return rule.type;
+  }
+}
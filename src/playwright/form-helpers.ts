@@ -0,0 +1,500 @@
+/**
+ * Playwright Form Helpers
+ * Discover form fields and fill them from explicit data or generators
+ */
+
+import type { Locator } from '@playwright/test';
+import type { Address, CardInfo, FillFormOptions, FormFieldKind, FormValues } from '../types';
+import { randomAlpha, randomElement, randomInt, withRng } from '../generators/random';
+import { generateEmail } from '../generators/email';
+import { generatePhone } from '../generators/phone';
+import { generatePassword } from '../generators/password';
+import { generateFullAddress } from '../generators/address';
+import { generateCard } from '../generators/card';
+import { addDays, formatMMDDYYYY, formatYYYYMMDD, randomBirthDate } from '../generators/date';
+
+const CONTROL_SELECTOR = 'input, select, textarea';
+// Set on each control while a fill runs so it can be found again, even inside shadow roots
+const FIELD_ATTRIBUTE = 'data-fill-form-field';
+const SKIPPED_TYPES = ['hidden', 'submit', 'button', 'reset', 'image', 'file'];
+
+const FIRST_NAMES = ['James', 'Mary', 'Alex', 'Priya', 'Chen', 'Sofia', 'Omar', 'Emma', 'Lucas', 'Aisha'];
+const LAST_NAMES = ['Smith', 'Garcia', 'Nguyen', 'Patel', 'Kim', 'Müller', 'Rossi', 'Johnson', 'Okafor', 'Silva'];
+const COMPANIES = ['Acme Corp', 'Globex', 'Initech', 'Umbrella Labs', 'Stark Industries'];
+
+const COUNTRY_NAMES: Record<string, string[]> = {
+  US: ['US', 'USA', 'United States', 'United States of America'],
+  CA: ['CA', 'CAN', 'Canada'],
+  UK: ['GB', 'UK', 'GBR', 'United Kingdom'],
+};
+
+const AUTOCOMPLETE_KINDS: Record<string, FormFieldKind> = {
+  email: 'email',
+  tel: 'tel',
+  'tel-national': 'tel',
+  'new-password': 'password',
+  'current-password': 'password',
+  name: 'name',
+  'given-name': 'given-name',
+  'family-name': 'family-name',
+  username: 'username',
+  organization: 'organization',
+  'street-address': 'street-address',
+  'address-line1': 'street-address',
+  'address-line2': 'address-line2',
+  'address-level2': 'address-level2',
+  'address-level1': 'address-level1',
+  'postal-code': 'postal-code',
+  country: 'country',
+  'country-name': 'country',
+  'cc-name': 'cc-name',
+  'cc-number': 'cc-number',
+  'cc-exp': 'cc-exp',
+  'cc-exp-month': 'cc-exp-month',
+  'cc-exp-year': 'cc-exp-year',
+  'cc-csc': 'cc-csc',
+  bday: 'bday',
+  url: 'url',
+};
+
+// Checked in order against the field's name, id, label and placeholder
+const KEYWORD_KINDS: Array<[RegExp, FormFieldKind]> = [
+  [/e-?mail/, 'email'],
+  [/card.?holder|name.?on.?card|cc-?name/, 'cc-name'],
+  [/card.?num|cc-?num|credit.?card/, 'cc-number'],
+  [/cvc|cvv|csc|security.?code/, 'cc-csc'],
+  [/exp\w*.?month/, 'cc-exp-month'],
+  [/exp\w*.?year/, 'cc-exp-year'],
+  [/expir|exp.?date|cc-?exp/, 'cc-exp'],
+  [/birth|dob|bday/, 'bday'],
+  [/phone|mobile|\btel\b/, 'tel'],
+  [/zip|postal|post.?code/, 'postal-code'],
+  [/first.?name|given.?name|fname/, 'given-name'],
+  [/last.?name|sur.?name|family.?name|lname/, 'family-name'],
+  [/user.?name|login/, 'username'],
+  [/company|organi[sz]ation/, 'organization'],
+  [/address.?(line)?.?2|\bapt\b|apartment|suite/, 'address-line2'],
+  [/address|street/, 'street-address'],
+  [/city|town/, 'address-level2'],
+  [/state|province|region/, 'address-level1'],
+  [/country/, 'country'],
+  [/password|passwd|pwd/, 'password'],
+  [/website|homepage|\burl\b/, 'url'],
+  [/\bname\b/, 'name'],
+];
+
+/**
+ * Field description gathered from the DOM
+ */
+interface FieldInfo {
+  index: number;
+  tag: string;
+  type: string;
+  name: string;
+  id: string;
+  autocomplete: string;
+  label: string;
+  placeholder: string;
+  value: string;
+  options: Array<{ value: string; label: string }>;
+  min: string;
+  max: string;
+  maxLength: number;
+  required: boolean;
+  fillable: boolean;
+}
+
+/**
+ * A fillable field; radio buttons sharing a name form one field
+ */
+interface FormField {
+  key: string;
+  kind: FormFieldKind;
+  controls: FieldInfo[];
+}
+
+/**
+ * Value to fill and the control that receives it (the chosen option for radio groups)
+ */
+interface Assignment {
+  control: FieldInfo;
+  value: string | boolean;
+}
+
+/**
+ * Values generated once per fill so related fields stay consistent
+ */
+interface Profile {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  password: string;
+  username: string;
+  company: string;
+  address: Address;
+  card: CardInfo;
+  birthDate: Date;
+  country: NonNullable<FillFormOptions['country']>;
+}
+
+let nextRun = 1;
+
+/**
+ * Fill a form from explicit values or generated data
+ *
+ * Fields are discovered inside formLocator and keyed by name, then id, then
+ * label. With 'auto', each field's kind is inferred from its autocomplete
+ * attribute, input type and name/label keywords, and a matching generator
+ * supplies the value (one coherent identity per call: the address, card and
+ * password fields agree with each other). Only required checkboxes are
+ * checked unless `checkOptional` is set. Explicit values may target a field
+ * by name, id, label, autocomplete token or inferred kind.
+ *
+ * @returns The values that were filled, keyed by field
+ * @throws Error when an explicit or override key matches no field, or a radio group has no such option
+ *
+ * @example
+ * const used = await fillForm(page.locator('form#signup'), 'auto', { overrides: { country: 'CA' } });
+ * await page.click('button[type=submit]');
+ * await expect(page.locator('.welcome')).toContainText(used.email as string);
+ *
+ * await fillForm(page.locator('form#login'), { email: 'ann@test.com', password: 'secret', remember: true });
+ */
+export async function fillForm(
+  form: Locator,
+  data: FormValues | 'auto' = 'auto',
+  options: FillFormOptions = {}
+): Promise<FormValues> {
+  const { overrides = {}, skip = [], country = 'US', checkOptional = false, rng } = options;
+  const run = nextRun++;
+  const fields = groupFields(await discoverFields(form, run));
+
+  try {
+    const skipped = new Set(skip.map((key) => findField(fields, key)).filter(Boolean));
+
+    const assignments = new Map<FormField, Assignment>();
+    if (data === 'auto') {
+      withRng(rng, () => {
+        const profile = createProfile(country);
+        for (const field of fields) {
+          if (skipped.has(field)) continue;
+          const assignment = generateValue(field, profile, checkOptional);
+          if (assignment) {
+            assignments.set(field, assignment);
+          }
+        }
+      });
+    }
+
+    const explicit = data === 'auto' ? overrides : data;
+    for (const [key, value] of Object.entries(explicit)) {
+      const field = findField(fields, key);
+      if (!field) {
+        throw new Error(
+          `No form field matches "${key}". Fields found: ${fields.map((f) => `${f.key} (${f.kind})`).join(', ') || 'none'}`
+        );
+      }
+      assignments.set(field, resolveAssignment(field, value));
+    }
+
+    const used: FormValues = {};
+    for (const [field, assignment] of assignments) {
+      await applyValue(form, field, assignment);
+      used[field.key] = assignment.value;
+    }
+    return used;
+  } finally {
+    // The page may have navigated away after the last field
+    await untagFields(form, run).catch(() => undefined);
+  }
+}
+
+/**
+ * Infer the kind of each fillable field in a form (useful for debugging fillForm)
+ */
+export async function describeFormFields(form: Locator): Promise<Array<{ key: string; kind: FormFieldKind }>> {
+  return groupFields(await discoverFields(form)).map(({ key, kind }) => ({ key, kind }));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Collect the form's controls, including those in open shadow roots
+ * With a run number, each control is tagged so applyValue can find it again.
+ */
+async function discoverFields(form: Locator, run?: number): Promise<FieldInfo[]> {
+  await form.waitFor({ state: 'attached' });
+  return form.locator(CONTROL_SELECTOR).evaluateAll((elements, { attribute, run }) => {
+    const labelOf = (el: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement): string => {
+      const aria = el.getAttribute('aria-label');
+      if (aria) return aria;
+      const labelledBy = el.getAttribute('aria-labelledby');
+      if (labelledBy) {
+        const scope = el.getRootNode() as Document | ShadowRoot;
+        const text = labelledBy
+          .split(/\s+/)
+          .map((id) => scope.getElementById(id)?.textContent ?? '')
+          .join(' ');
+        if (text.trim()) return text;
+      }
+      return el.labels?.[0]?.textContent ?? '';
+    };
+
+    const controls = elements as Array<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+    return controls.map((el, index) => {
+      const type = el instanceof HTMLSelectElement
+        ? 'select'
+        : el instanceof HTMLTextAreaElement
+          ? 'textarea'
+          : (el.getAttribute('type') || 'text').toLowerCase();
+      const rect = el.getBoundingClientRect();
+      const visible = rect.width > 0 && rect.height > 0 && getComputedStyle(el).visibility !== 'hidden';
+      const readOnly = 'readOnly' in el && el.readOnly;
+      const tag = run !== undefined ? `${run}:${index}` : '';
+      if (tag) {
+        el.setAttribute(attribute, tag);
+      }
+
+      return {
+        index,
+        tag,
+        type,
+        name: el.name,
+        id: el.id,
+        autocomplete: el.getAttribute('autocomplete') ?? '',
+        label: labelOf(el).replace(/\s+/g, ' ').replace(/\s*\*\s*$/, '').trim(),
+        placeholder: el.getAttribute('placeholder') ?? '',
+        // A checkbox or radio without a value attribute reports "on"
+        value: type === 'checkbox' || type === 'radio' ? el.getAttribute('value') ?? '' : el.value,
+        options: el instanceof HTMLSelectElement
+          ? Array.from(el.options)
+            .filter((option) => !option.disabled && option.value !== '')
+            .map((option) => ({ value: option.value, label: option.label.trim() }))
+          : [],
+        min: el.getAttribute('min') ?? '',
+        max: el.getAttribute('max') ?? '',
+        maxLength: 'maxLength' in el ? el.maxLength : -1,
+        required: el.required,
+        fillable: visible && !el.disabled && !readOnly,
+      };
+    });
+  }, { attribute: FIELD_ATTRIBUTE, run });
+}
+
+async function untagFields(form: Locator, run: number): Promise<void> {
+  await form.locator(`[${FIELD_ATTRIBUTE}^="${run}:"]`).evaluateAll((elements, attribute) => {
+    elements.forEach((el) => el.removeAttribute(attribute));
+  }, FIELD_ATTRIBUTE);
+}
+
+function groupFields(infos: FieldInfo[]): FormField[] {
+  const fields: FormField[] = [];
+  for (const info of infos) {
+    if (!info.fillable || SKIPPED_TYPES.includes(info.type)) continue;
+
+    if (info.type === 'radio' && info.name) {
+      const group = fields.find((field) => field.kind === 'radio' && field.controls[0].name === info.name);
+      if (group) {
+        group.controls.push(info);
+        continue;
+      }
+    }
+
+    fields.push({
+      key: info.name || info.id || info.label || `field${info.index}`,
+      kind: inferKind(info),
+      controls: [info],
+    });
+  }
+  return fields;
+}
+
+function inferKind(info: FieldInfo): FormFieldKind {
+  if (info.type === 'checkbox' || info.type === 'radio') {
+    return info.type;
+  }
+
+  const token = info.autocomplete.toLowerCase().split(/\s+/).pop() ?? '';
+  if (AUTOCOMPLETE_KINDS[token]) {
+    return AUTOCOMPLETE_KINDS[token];
+  }
+
+  if (info.type === 'email' || info.type === 'tel' || info.type === 'password' || info.type === 'url') {
+    return info.type;
+  }
+
+  const text = [info.name, info.id, info.label, info.placeholder].join(' ').toLowerCase();
+  for (const [pattern, kind] of KEYWORD_KINDS) {
+    if (pattern.test(text)) {
+      return kind;
+    }
+  }
+
+  if (info.type === 'number' || info.type === 'range') return 'number';
+  if (['date', 'datetime-local', 'month', 'week', 'time'].includes(info.type)) return 'date';
+  return 'text';
+}
+
+function findField(fields: FormField[], key: string): FormField | undefined {
+  const wanted = key.toLowerCase();
+  const lookups: Array<(field: FormField) => string> = [
+    (field) => field.controls[0].name,
+    (field) => field.controls[0].id,
+    (field) => field.controls[0].label,
+    (field) => field.controls[0].autocomplete.split(/\s+/).pop() ?? '',
+    (field) => field.kind,
+  ];
+  for (const lookup of lookups) {
+    const field = fields.find((f) => lookup(f).toLowerCase() === wanted);
+    if (field) return field;
+  }
+  return undefined;
+}
+
+function createProfile(country: Profile['country']): Profile {
+  const firstName = randomElement(FIRST_NAMES);
+  const lastName = randomElement(LAST_NAMES);
+  return {
+    firstName,
+    lastName,
+    email: generateEmail(),
+    phone: generatePhone({ country }),
+    password: generatePassword({ length: 14 }),
+    username: `${firstName.toLowerCase()}${randomInt(100, 9999)}`,
+    company: randomElement(COMPANIES),
+    address: generateFullAddress({ country }),
+    card: generateCard(),
+    birthDate: randomBirthDate(),
+    country,
+  };
+}
+
+/**
+ * Pick a value for a field, or undefined to leave it untouched
+ */
+function generateValue(field: FormField, profile: Profile, checkOptional: boolean): Assignment | undefined {
+  const [control] = field.controls;
+
+  if (field.kind === 'checkbox') {
+    return control.required || checkOptional ? { control, value: true } : undefined;
+  }
+  if (field.kind === 'radio') {
+    const choice = randomElement(field.controls);
+    return { control: choice, value: choice.value || choice.label };
+  }
+
+  const value = generateText(field.kind, control, profile);
+  return value !== undefined ? { control, value } : undefined;
+}
+
+/**
+ * Find the control an explicit value applies to
+ */
+function resolveAssignment(field: FormField, value: string | boolean): Assignment {
+  if (field.kind !== 'radio') {
+    return { control: field.controls[0], value };
+  }
+
+  const wanted = String(value).toLowerCase();
+  const choice = field.controls.find(
+    (info) => (info.value !== '' && info.value.toLowerCase() === wanted) || info.label.toLowerCase() === wanted
+  );
+  if (!choice) {
+    throw new Error(
+      `Radio group "${field.key}" has no option "${value}". ` +
+      `Options: ${field.controls.map((info) => info.value || info.label).join(', ')}`
+    );
+  }
+  return { control: choice, value };
+}
+
+function generateText(kind: FormFieldKind, control: FieldInfo, profile: Profile): string | undefined {
+  const candidates = candidateValues(kind, control, profile);
+  if (control.type === 'select') {
+    if (control.options.length === 0) return undefined;
+    const match = control.options.find((option) =>
+      candidates.some((candidate) =>
+        [option.value, option.label].some((text) => text.toLowerCase() === candidate.toLowerCase())
+      )
+    );
+    return (match ?? randomElement(control.options)).value;
+  }
+
+  if (candidates.length === 0) return undefined;
+  const value = candidates[0];
+  return control.maxLength > 0 ? value.slice(0, control.maxLength) : value;
+}
+
+function candidateValues(kind: FormFieldKind, control: FieldInfo, profile: Profile): string[] {
+  const { address, card } = profile;
+  const [month, year] = card.expiry.split('/');
+
+  switch (kind) {
+    case 'email': return [profile.email];
+    case 'tel': return [profile.phone];
+    case 'password': return [profile.password];
+    case 'name':
+    case 'cc-name': return [`${profile.firstName} ${profile.lastName}`];
+    case 'given-name': return [profile.firstName];
+    case 'family-name': return [profile.lastName];
+    case 'username': return [profile.username];
+    case 'organization': return [profile.company];
+    case 'street-address': return [address.street];
+    case 'address-line2': return address.apt ? [address.apt] : [];
+    case 'address-level2': return [address.city];
+    case 'address-level1': return [address.state];
+    case 'postal-code': return [address.postalCode];
+    case 'country': return COUNTRY_NAMES[profile.country] ?? [profile.country];
+    case 'cc-number': return [card.number];
+    case 'cc-exp': return [card.expiry];
+    case 'cc-exp-month': return [month, String(Number(month))];
+    case 'cc-exp-year': return [`20${year}`, year];
+    case 'cc-csc': return [card.cvc];
+    case 'bday': return [formatForInput(profile.birthDate, control.type === 'text' ? 'text' : control.type)];
+    case 'url': return ['https://example.com'];
+    case 'number': {
+      const min = control.min !== '' ? Number(control.min) : 1;
+      const max = control.max !== '' ? Number(control.max) : min + 99;
+      return [String(randomInt(min, max))];
+    }
+    case 'date': return [formatForInput(addDays(new Date(), randomInt(1, 30)), control.type)];
+    default: return [`Test ${randomAlpha(8)}`];
+  }
+}
+
+function formatForInput(date: Date, type: string): string {
+  const day = formatYYYYMMDD(date);
+  switch (type) {
+    case 'date': return day;
+    case 'datetime-local': return `${day}T12:00`;
+    case 'month': return day.slice(0, 7);
+    case 'week': return `${date.getFullYear()}-W${String(randomInt(1, 52)).padStart(2, '0')}`;
+    case 'time': return `${String(randomInt(8, 18)).padStart(2, '0')}:00`;
+    default: return formatMMDDYYYY(date);
+  }
+}
+
+async function applyValue(form: Locator, field: FormField, { control, value }: Assignment): Promise<void> {
+  const locator = form.locator(`[${FIELD_ATTRIBUTE}="${control.tag}"]`);
+
+  switch (field.kind) {
+    case 'checkbox':
+      await locator.setChecked(value === true || value === 'true');
+      return;
+
+    case 'radio':
+      await locator.check();
+      return;
+
+    default:
+      if (control.type === 'select') {
+        await locator.selectOption(String(value));
+      } else {
+        await locator.fill(String(value));
+      }
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Playwright GraphQL Helpers
+ * Mock, wait for and capture GraphQL operations by name and variables
+ */
+
+import type { Page, Request, Response, Route } from '@playwright/test';
+import type {
+  GraphQLCapture,
+  GraphQLErrorEntry,
+  GraphQLMatchOptions,
+  GraphQLMockOptions,
+  GraphQLMockResult,
+  GraphQLOperation,
+  GraphQLResponseBody,
+  GraphQLWaitOptions,
+} from '../types';
+import { getRouteRegistry, extendRouteHandle } from './route-registry';
+import type { RouteHandle } from './route-registry';
+import { describeUrlFilter, isSubset, matchesUrl, sleep } from './utils';
+
+const DEFAULT_ENDPOINT = '/graphql';
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Error thrown when a GraphQL response contains errors
+ */
+export class GraphQLError extends Error {
+  constructor(
+    public readonly errors: GraphQLErrorEntry[],
+    public readonly operationName: string | null,
+    public readonly data: unknown = null
+  ) {
+    super(
+      `GraphQL operation ${operationName ? `"${operationName}" ` : ''}failed with ${errors.length} error(s):\n` +
+      errors
+        .map((e) => `  ${e.message}${e.path ? ` (at ${e.path.join('.')})` : ''}`)
+        .join('\n')
+    );
+    this.name = 'GraphQLError';
+  }
+}
+
+/**
+ * Handle to a mocked GraphQL operation
+ */
+export interface GraphQLMock extends RouteHandle {
+  /** Operations served by the mock so far */
+  readonly operations: GraphQLOperation[];
+  /** Remove the mock (same as dispose) */
+  stop(): Promise<void>;
+}
+
+/**
+ * Mock a GraphQL operation by name
+ *
+ * Non-matching operations, and batched requests, fall through to other
+ * handlers or the network.
+ *
+ * @example
+ * await mockGraphQL(page, 'GetUser', { data: { user: { id: '1', name: 'Ann' } } }, {
+ *   variables: { id: '1' },
+ * });
+ */
+export async function mockGraphQL(
+  page: Page,
+  operationName: string,
+  result: GraphQLMockResult,
+  options: GraphQLMockOptions = {}
+): Promise<GraphQLMock> {
+  const { endpoint = DEFAULT_ENDPOINT, status = 200, times = Infinity, delay = 0, scope } = options;
+  const operations: GraphQLOperation[] = [];
+
+  const matcher = (url: URL): boolean => matchesUrl(url.href, endpoint);
+
+  const handler = async (route: Route) => {
+    const parsed = parseGraphQLRequest(route.request());
+    const operation = parsed.length === 1 ? parsed[0] : null;
+
+    if (!operation || operations.length >= times || !matchesOperation(operation, operationName, options)) {
+      await route.fallback();
+      return;
+    }
+
+    operations.push(operation);
+    const body = typeof result === 'function' ? await result(operation) : result;
+    if (delay > 0) {
+      await sleep(delay);
+    }
+    await route.fulfill({
+      status,
+      contentType: 'application/json',
+      body: JSON.stringify(body),
+    });
+  };
+
+  // `times` counts matching operations, not requests, so it is not passed to the route
+  const routeHandle = await getRouteRegistry(page).add('mockGraphQL', matcher, handler, { scope }, {
+    description: `${operationName} at ${describeUrlFilter(endpoint)}`,
+  });
+
+  return extendRouteHandle<GraphQLMock>(routeHandle, {
+    get operations() {
+      return [...operations];
+    },
+    stop: routeHandle.dispose,
+  });
+}
+
+/**
+ * Wait for the response to a GraphQL operation
+ * @throws GraphQLError when failOnErrors is set and the response has errors
+ */
+export async function waitForGraphQL<T = unknown>(
+  page: Page,
+  operationName: string,
+  options: GraphQLWaitOptions = {}
+): Promise<GraphQLCapture<T>> {
+  const { endpoint = DEFAULT_ENDPOINT, timeout = DEFAULT_TIMEOUT } = options;
+
+  const response = await page.waitForResponse(
+    (res) =>
+      matchesUrl(res.url(), endpoint) &&
+      parseGraphQLRequest(res.request()).some((op) => matchesOperation(op, operationName, options)),
+    { timeout }
+  );
+
+  return readCapture<T>(response, operationName, options);
+}
+
+/**
+ * Run an action and capture the GraphQL operation it triggers
+ * @throws GraphQLError when failOnErrors is set and the response has errors
+ *
+ * @example
+ * const { variables } = (await captureGraphQL(page, 'UpdateUser', () => page.click('#save'))).operation;
+ * expect(variables).toMatchObject({ input: { name: 'Ann' } });
+ */
+export async function captureGraphQL<T = unknown>(
+  page: Page,
+  operationName: string,
+  action: () => Promise<unknown>,
+  options: GraphQLWaitOptions = {}
+): Promise<GraphQLCapture<T>> {
+  const [capture] = await Promise.all([
+    waitForGraphQL<T>(page, operationName, options),
+    action(),
+  ]);
+  return capture;
+}
+
+/**
+ * Parse the GraphQL operations carried by a request (POST body or GET query)
+ * Returns an empty array for non-GraphQL requests.
+ */
+export function parseGraphQLRequest(request: Request): GraphQLOperation[] {
+  try {
+    if (request.method() === 'GET') {
+      const params = new URL(request.url()).searchParams;
+      const query = params.get('query');
+      if (!query) return [];
+      const variables = params.get('variables');
+      return [toOperation({
+        query,
+        operationName: params.get('operationName'),
+        variables: variables ? JSON.parse(variables) : {},
+      })].filter(isOperation);
+    }
+
+    const body = request.postDataJSON() as unknown;
+    const payloads = Array.isArray(body) ? body : [body];
+    return payloads.map(toOperation).filter(isOperation);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read the operation name from a query document
+ */
+export function parseOperationName(query: string): string | null {
+  const match = query.match(/\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/);
+  return match ? match[1] : null;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function readCapture<T>(
+  response: Response,
+  operationName: string,
+  options: GraphQLWaitOptions
+): Promise<GraphQLCapture<T>> {
+  const operations = parseGraphQLRequest(response.request());
+  const index = operations.findIndex((op) => matchesOperation(op, operationName, options));
+
+  let body: GraphQLResponseBody<T> = {};
+  try {
+    const json = await response.json();
+    body = (Array.isArray(json) ? json[index] : json) ?? {};
+  } catch {
+    // Non-JSON response
+  }
+
+  const capture: GraphQLCapture<T> = {
+    operation: operations[index],
+    status: response.status(),
+    data: body.data ?? null,
+    errors: body.errors ?? [],
+  };
+
+  if (options.failOnErrors && capture.errors.length > 0) {
+    throw new GraphQLError(capture.errors, operationName, capture.data);
+  }
+  return capture;
+}
+
+function toOperation(payload: unknown): GraphQLOperation | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const { query, operationName, variables } = payload as Record<string, unknown>;
+  if (typeof query !== 'string') return null;
+
+  return {
+    query,
+    operationName: typeof operationName === 'string' && operationName
+      ? operationName
+      : parseOperationName(query),
+    variables: variables && typeof variables === 'object' ? variables as Record<string, unknown> : {},
+  };
+}
+
+function isOperation(operation: GraphQLOperation | null): operation is GraphQLOperation {
+  return operation !== null;
+}
+
+function matchesOperation(
+  operation: GraphQLOperation,
+  operationName: string,
+  options: GraphQLMatchOptions
+): boolean {
+  if (operation.operationName !== operationName) return false;
+  if (options.variables === undefined) return true;
+  if (typeof options.variables === 'function') return options.variables(operation.variables);
+  return isSubset(operation.variables, options.variables);
+}
@@ -0,0 +1,257 @@
+/**
+ * Playwright HAR Helpers
+ * Record network traffic to a HAR-like JSON file and replay it offline
+ */
+
+import { createHash } from 'crypto';
+import type { Page, Route, Response } from '@playwright/test';
+import type {
+  HarEntry,
+  HarFile,
+  HarMatchOptions,
+  HarRecordOptions,
+  HarReplayOptions,
+  HarReplayReport,
+} from '../types';
+import { fileExistsAsync, readFileContent, writeFileContent } from '../file/download';
+import { getRouteRegistry, extendRouteHandle } from './route-registry';
+import type { RouteHandle } from './route-registry';
+import { matchesUrl } from './utils';
+
+const HAR_VERSION = '1.0';
+const DEFAULT_RESOURCE_TYPES = ['fetch', 'xhr'];
+
+// Headers that no longer apply once the body is stored decoded
+const STRIPPED_RESPONSE_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding'];
+
+/**
+ * Active HAR recording session
+ */
+export interface HarRecorder {
+  /** Entries captured so far */
+  readonly entries: HarEntry[];
+  /** Stop recording and write the HAR file */
+  stop(): Promise<HarFile>;
+}
+
+/**
+ * Active HAR replay session
+ */
+export interface HarReplay extends RouteHandle {
+  /** Summary of served, unmatched and unused entries */
+  getReport(): HarReplayReport;
+  /** Remove the replay route (same as dispose) */
+  stop(): Promise<void>;
+}
+
+/**
+ * Record every matching request/response on the page until stop() is called
+ */
+export function recordHar(
+  page: Page,
+  filePath: string,
+  options: HarRecordOptions = {}
+): HarRecorder {
+  const { filter, resourceTypes = DEFAULT_RESOURCE_TYPES } = options;
+  const entries: HarEntry[] = [];
+  const pending: Promise<void>[] = [];
+
+  const capture = async (response: Response): Promise<void> => {
+    const request = response.request();
+    const timing = request.timing();
+
+    let body: Buffer;
+    try {
+      body = await response.body();
+    } catch {
+      // Redirects and aborted responses have no body
+      body = Buffer.alloc(0);
+    }
+
+    const headers = await response.allHeaders();
+    const isText = isTextContent(headers['content-type']);
+    const postData = request.postData() ?? undefined;
+
+    entries.push({
+      startedDateTime: new Date(timing.startTime > 0 ? timing.startTime : Date.now()).toISOString(),
+      time: Math.max(0, timing.responseEnd),
+      request: {
+        method: request.method(),
+        url: request.url(),
+        headers: await request.allHeaders(),
+        postData,
+        bodyHash: postData !== undefined ? hashBody(postData) : undefined,
+      },
+      response: {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers,
+        body: isText ? body.toString('utf8') : body.toString('base64'),
+        encoding: isText ? 'utf8' : 'base64',
+      },
+    });
+  };
+
+  const handler = (response: Response) => {
+    const request = response.request();
+    if (!resourceTypes.includes(request.resourceType())) return;
+    if (filter && !matchesUrl(request.url(), filter)) return;
+    pending.push(capture(response).catch(() => {
+      // Page closed before the entry could be captured
+    }));
+  };
+
+  page.on('response', handler);
+
+  return {
+    entries,
+    async stop() {
+      page.off('response', handler);
+      await Promise.allSettled(pending);
+
+      const har: HarFile = {
+        version: HAR_VERSION,
+        createdAt: new Date().toISOString(),
+        entries,
+      };
+      await writeFileContent(filePath, JSON.stringify(har, null, 2));
+      return har;
+    },
+  };
+}
+
+/**
+ * Serve responses from a HAR file through page.route
+ * Entries with the same match key are served in recorded order; the last one repeats.
+ * Requests of resource types that were not recorded (documents, scripts,
+ * images by default) always go to the network.
+ */
+export async function replayHar(
+  page: Page,
+  filePath: string,
+  options: HarReplayOptions = {}
+): Promise<HarReplay> {
+  const { filter, resourceTypes = DEFAULT_RESOURCE_TYPES, notFound = 'fallback', times, scope } = options;
+  const har = JSON.parse(await readFileContent(filePath)) as HarFile;
+
+  const queues = new Map<string, HarEntry[]>();
+  const served = new Set<HarEntry>();
+  const unmatched: HarReplayReport['unmatched'] = [];
+
+  for (const entry of har.entries) {
+    const key = buildMatchKey(entry.request.method, entry.request.url, entry.request.postData, options);
+    const queue = queues.get(key) ?? [];
+    queue.push(entry);
+    queues.set(key, queue);
+  }
+
+  const handler = async (route: Route) => {
+    const request = route.request();
+
+    if (!resourceTypes.includes(request.resourceType()) || (filter && !matchesUrl(request.url(), filter))) {
+      await route.fallback();
+      return;
+    }
+
+    const key = buildMatchKey(request.method(), request.url(), request.postData() ?? undefined, options);
+    const queue = queues.get(key);
+
+    if (!queue || queue.length === 0) {
+      unmatched.push({ method: request.method(), url: request.url() });
+      if (notFound === 'fallback') {
+        await route.fallback();
+      } else if (notFound === '404') {
+        await route.fulfill({ status: 404, body: '' });
+      } else {
+        await route.abort('internetdisconnected');
+      }
+      return;
+    }
+
+    const entry = queue.length > 1 ? queue.shift()! : queue[0];
+    served.add(entry);
+
+    const headers = { ...entry.response.headers };
+    for (const header of STRIPPED_RESPONSE_HEADERS) {
+      delete headers[header];
+    }
+
+    await route.fulfill({
+      status: entry.response.status,
+      headers,
+      body: Buffer.from(entry.response.body, entry.response.encoding === 'base64' ? 'base64' : 'utf8'),
+    });
+  };
+
+  const routeHandle = await getRouteRegistry(page).add('replayHar', '**/*', handler, { times, scope }, {
+    description: filePath,
+  });
+
+  return extendRouteHandle<HarReplay>(routeHandle, {
+    getReport() {
+      return {
+        served: served.size,
+        unmatched: [...unmatched],
+        unused: har.entries
+          .filter((entry) => !served.has(entry))
+          .map((entry) => ({ method: entry.request.method, url: entry.request.url })),
+      };
+    },
+    stop: routeHandle.dispose,
+  });
+}
+
+/**
+ * Replay the HAR file if it exists, otherwise record it
+ */
+export async function useHar(
+  page: Page,
+  filePath: string,
+  options: HarRecordOptions & HarReplayOptions = {}
+): Promise<HarRecorder | HarReplay> {
+  if (await fileExistsAsync(filePath)) {
+    return replayHar(page, filePath, options);
+  }
+  return recordHar(page, filePath, options);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build the lookup key for a request according to the match options
+ */
+function buildMatchKey(
+  method: string,
+  url: string,
+  postData: string | undefined,
+  options: HarMatchOptions
+): string {
+  const { matchMethod = true, ignoreQuery = false, ignoreQueryParams = [], matchBody = false } = options;
+  const parsed = new URL(url);
+
+  let query = '';
+  if (!ignoreQuery) {
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !ignoreQueryParams.includes(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    query = new URLSearchParams(params).toString();
+  }
+
+  return [
+    matchMethod ? method.toUpperCase() : '*',
+    `${parsed.origin}${parsed.pathname}`,
+    query,
+    matchBody && postData !== undefined ? hashBody(postData) : '',
+  ].join(' ');
+}
+
+function hashBody(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+function isTextContent(contentType: string | undefined): boolean {
+  if (!contentType) return true;
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
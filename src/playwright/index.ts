@@ -8,8 +8,19 @@ export {
   PageHelpers,
   createPageHelpers,
   BREAKPOINTS,
+  setSafeActionPolicy,
+  getSafeActionPolicy,
 } from './page-helpers';
 
+export type { SafeActionPolicy, OverlayHandler } from './page-helpers';
+
+// Clickability diagnostics
+export { diagnoseClickability } from './clickability';
+
+// Auto-dismiss
+export { autoDismiss, formatAutoDismissStats } from './auto-dismiss';
+export type { AutoDismiss, AutoDismissAction } from './auto-dismiss';
+
 // Locator helpers
 export {
   buildLocator,
@@ -41,8 +52,21 @@ export {
   createWaitHelpers,
   poll,
   retry,
+  WaitTimeoutError,
 } from './wait-helpers';
 
+export type { WaitDiagnosticsOptions } from './wait-helpers';
+
+// JSON schema
+export {
+  validateJsonSchema,
+  assertJsonSchema,
+  JsonSchemaError,
+} from './json-schema';
+
+// Retry policy
+export { runWithRetry, computeDelay } from './retry-policy';
+
 // Scroll helpers
 export {
   ScrollHelpers,
@@ -55,8 +79,84 @@ export {
   createNetworkHelpers,
   ApiClient,
   createApiClient,
+  ApiError,
 } from './network-helpers';
 
+export type { ApiRequestOptions } from './network-helpers';
+
+// Download helpers
+export {
+  DownloadHelpers,
+  createDownloadHelpers,
+} from './download-helpers';
+
+// Network throttling
+export { throttleNetwork, NETWORK_PROFILES } from './network-throttle';
+
+export type { NetworkThrottle } from './network-throttle';
+
+// Route registry
+export { RouteRegistry, createRouteRegistry, getRouteRegistry } from './route-registry';
+
+export type { RouteHandle } from './route-registry';
+
+// Session state
+export {
+  captureSessionState,
+  applySessionState,
+  saveSessionState,
+  restoreSessionState,
+} from './session-state';
+
+// WebSocket & SSE mocks
+export { mockWebSocket } from './websocket-mock';
+export { mockSSE, formatSSEEvent } from './sse-mock';
+
+export type { WebSocketMock } from './websocket-mock';
+export type { SSEMock } from './sse-mock';
+
+// Form helpers
+export { fillForm, describeFormFields } from './form-helpers';
+
+// Fault injection
+export { injectFaults } from './fault-injection';
+
+export type { FaultInjector } from './fault-injection';
+
+// Network recorder
+export {
+  NetworkRecorder,
+  createNetworkRecorder,
+} from './network-recorder';
+
+// GraphQL helpers
+export {
+  mockGraphQL,
+  waitForGraphQL,
+  captureGraphQL,
+  parseGraphQLRequest,
+  GraphQLError,
+} from './graphql-helpers';
+
+export type { GraphQLMock } from './graphql-helpers';
+
+// HAR helpers
+export {
+  recordHar,
+  replayHar,
+  useHar,
+} from './har-helpers';
+
+export type { HarRecorder, HarReplay } from './har-helpers';
+
+// Mock resource
+export { mountResource } from './mock-resource';
+
+export type { MockResource } from './mock-resource';
+
+// Seed helpers
+export { useSeededRandom } from './seed-helpers';
+
 // Viewport helpers
 export {
   ViewportHelpers,
@@ -0,0 +1,157 @@
+import { test, expect } from '@playwright/test';
+import { validateJsonSchema, assertJsonSchema, JsonSchemaError } from './json-schema';
+import type { JsonSchema } from '../types';
+
+const messages = (value: unknown, schema: JsonSchema): string[] =>
+  validateJsonSchema(value, schema).errors.map((e) => e.message);
+
+test.describe('validateJsonSchema', () => {
+  test('checks types, treating whole numbers as integers', () => {
+    expect(messages(1, { type: 'integer' })).toEqual([]);
+    expect(messages(1.5, { type: 'integer' })).toEqual(['$: expected integer, got number 1.5']);
+    expect(messages(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(messages([], { type: 'object' })).toEqual(['$: expected object, got array']);
+  });
+
+  test('reports nested paths', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { type: 'object', properties: { price: { type: 'number' } } } },
+        'content-type': { type: 'string' },
+      },
+    };
+    const value = { items: [{ price: 1 }, { price: '2' }], 'content-type': 3 };
+
+    expect(messages(value, schema)).toEqual([
+      '$.items[1].price: expected number, got string',
+      '$["content-type"]: expected string, got number',
+    ]);
+  });
+
+  test('checks required properties by own key only', () => {
+    const schema: JsonSchema = { type: 'object', required: ['id', 'toString', 'constructor'] };
+
+    expect(messages({ id: undefined, toString: 1, constructor: null }, schema)).toEqual([]);
+    expect(validateJsonSchema({}, schema).errors).toEqual([
+      { path: '$.id', keyword: 'required', message: '$.id: is required' },
+      { path: '$.toString', keyword: 'required', message: '$.toString: is required' },
+      { path: '$.constructor', keyword: 'required', message: '$.constructor: is required' },
+    ]);
+  });
+
+  test('handles additional and pattern properties', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { id: { type: 'integer' } },
+      patternProperties: { '^x-': { type: 'string' } },
+      additionalProperties: false,
+    };
+
+    expect(messages({ id: 1, 'x-trace': 'abc' }, schema)).toEqual([]);
+    expect(messages({ id: 1, 'x-trace': 2, extra: true }, schema)).toEqual([
+      '$["x-trace"]: expected string, got number',
+      '$.extra: is not allowed',
+    ]);
+    expect(messages({ a: 'x' }, { additionalProperties: { type: 'number' } })).toEqual([
+      '$.a: expected number, got string',
+    ]);
+  });
+
+  test('checks string keywords and formats', () => {
+    expect(messages('ab', { minLength: 3 })).toEqual(['$: expected at least 3 characters, got 2']);
+    expect(messages('😀😀', { maxLength: 2 })).toEqual([]);
+    expect(messages('abc', { pattern: '^\\d+$' })).toEqual(['$: expected to match ^\\d+$, got "abc"']);
+
+    const valid = {
+      email: 'ann@example.com',
+      uuid: '123e4567-e89b-42d3-a456-426614174000',
+      ipv4: '192.168.0.1',
+      date: '2024-02-29',
+      'date-time': '2024-02-29T12:30:00Z',
+      uri: 'https://example.com/a?b=c',
+    };
+    for (const [format, value] of Object.entries(valid)) {
+      expect(messages(value, { format }), format).toEqual([]);
+      expect(messages('not valid', { format }), format).toHaveLength(1);
+    }
+    expect(messages('anything', { format: 'unknown-format' })).toEqual([]);
+  });
+
+  test('checks numeric bounds and multipleOf', () => {
+    expect(messages(5, { minimum: 5, maximum: 5 })).toEqual([]);
+    expect(messages(5, { exclusiveMinimum: 5, exclusiveMaximum: 5 })).toEqual([
+      '$: expected > 5, got 5',
+      '$: expected < 5, got 5',
+    ]);
+    expect(messages(0.3, { multipleOf: 0.1 })).toEqual([]);
+    expect(messages(0.35, { multipleOf: 0.1 })).toEqual(['$: expected a multiple of 0.1, got 0.35']);
+  });
+
+  test('checks array keywords', () => {
+    expect(messages([1, 2], { minItems: 3 })).toEqual(['$: expected at least 3 items, got 2']);
+    expect(messages([{ a: 1 }, { a: 1 }], { uniqueItems: true })).toEqual([
+      '$: expected unique items, items 0 and 1 are equal',
+    ]);
+    expect(messages([1, 'x', true], { items: [{ type: 'number' }, { type: 'string' }], additionalItems: false }))
+      .toEqual(['$: expected at most 2 items, got 3']);
+    expect(messages([1, 'x', 3], { items: [{ type: 'number' }], additionalItems: { type: 'number' } }))
+      .toEqual(['$[1]: expected number, got string']);
+    expect(messages([1, 2], { contains: { type: 'string' } })).toEqual([
+      '$: expected at least one item to match the schema in contains',
+    ]);
+  });
+
+  test('compares enum and const values deeply', () => {
+    expect(messages({ a: [1] }, { enum: ['x', { a: [1] }] })).toEqual([]);
+    expect(messages('y', { enum: ['x', 1] })).toEqual(['$: expected one of "x", 1, got "y"']);
+    expect(messages([1, 2], { const: [1, 2] })).toEqual([]);
+    expect(messages({ 0: 1 }, { const: [1] })).toEqual(['$: expected [1], got {"0":1}']);
+  });
+
+  test('supports allOf, anyOf, oneOf and not', () => {
+    expect(messages(5, { allOf: [{ minimum: 1 }, { maximum: 3 }] })).toEqual(['$: expected <= 3, got 5']);
+    expect(messages(true, { anyOf: [{ type: 'string' }, { type: 'number' }] })).toEqual([
+      '$: expected to match at least one of 2 schemas in anyOf',
+    ]);
+    expect(messages(2, { oneOf: [{ type: 'integer' }, { type: 'number' }] })).toEqual([
+      '$: expected to match exactly one schema in oneOf, matched 2',
+    ]);
+    expect(messages('x', { not: { type: 'string' } })).toEqual(['$: expected not to match the schema in not']);
+  });
+
+  test('resolves local $ref, including recursive definitions', () => {
+    const schema: JsonSchema = {
+      definitions: {
+        node: {
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/definitions/node' } } },
+        },
+      },
+      $ref: '#/definitions/node',
+    };
+
+    expect(messages({ name: 'root', children: [{ name: 'leaf', children: [] }] }, schema)).toEqual([]);
+    expect(messages({ name: 'root', children: [{ children: [] }] }, schema)).toEqual(['$.children[0].name: is required']);
+    expect(() => validateJsonSchema(1, { $ref: 'other.json#/a' })).toThrow('Only local $ref values are supported');
+    expect(() => validateJsonSchema(1, { $ref: '#/definitions/missing' })).toThrow('Unresolvable $ref');
+  });
+});
+
+test('assertJsonSchema returns the value or throws JsonSchemaError with context', () => {
+  const value = { id: 1 };
+  expect(assertJsonSchema<{ id: number }>(value, { type: 'object' })).toBe(value);
+
+  let error: unknown;
+  try {
+    assertJsonSchema(Array.from({ length: 12 }, () => 'x'), { items: { type: 'number' } }, 'GET /api/ids');
+  } catch (err) {
+    error = err;
+  }
+
+  expect(error).toBeInstanceOf(JsonSchemaError);
+  expect((error as JsonSchemaError).errors).toHaveLength(12);
+  expect((error as JsonSchemaError).message).toMatch(/^GET \/api\/ids: JSON schema validation failed with 12 error\(s\):/);
+  expect((error as JsonSchemaError).message).toContain('... and 2 more');
+});
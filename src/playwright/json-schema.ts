@@ -0,0 +1,348 @@
+/**
+ * JSON Schema Validation
+ * Draft-07 subset used for API contract checks
+ */
+
+import type { JsonSchema, JsonSchemaValidationError, JsonSchemaValidationResult } from '../types';
+import { PATTERNS } from '../string/regex';
+
+const MAX_REPORTED_ERRORS = 10;
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  email: (value) => PATTERNS.email.test(value),
+  uuid: (value) => PATTERNS.uuid.test(value),
+  ipv4: (value) => PATTERNS.ipv4.test(value),
+  date: (value) => PATTERNS.date.test(value) && !isNaN(Date.parse(value)),
+  'date-time': (value) =>
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) && !isNaN(Date.parse(value)),
+  uri: (value) => {
+    try {
+      new URL(value);
+      return /^[a-z][a-z\d+.-]*:/i.test(value);
+    } catch {
+      return false;
+    }
+  },
+};
+
+/**
+ * Error thrown when a value fails JSON schema validation
+ */
+export class JsonSchemaError extends Error {
+  constructor(public readonly errors: JsonSchemaValidationError[], context?: string) {
+    super(
+      `${context ? `${context}: ` : ''}JSON schema validation failed with ${errors.length} error(s):\n` +
+      errors.slice(0, MAX_REPORTED_ERRORS).map((e) => `  ${e.message}`).join('\n') +
+      (errors.length > MAX_REPORTED_ERRORS ? `\n  ... and ${errors.length - MAX_REPORTED_ERRORS} more` : '')
+    );
+    this.name = 'JsonSchemaError';
+  }
+}
+
+/**
+ * Validate a value against a JSON schema
+ *
+ * @example
+ * const result = validateJsonSchema(body, { type: 'object', required: ['id'] });
+ * // result.errors[0].message: "$.items[3].price: expected number, got string"
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): JsonSchemaValidationResult {
+  const errors: JsonSchemaValidationError[] = [];
+  validateNode(value, schema, '$', schema, errors);
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate a value against a JSON schema, throwing JsonSchemaError when invalid
+ * @param context - Prefix for the error message, e.g. the request URL
+ */
+export function assertJsonSchema<T = unknown>(value: unknown, schema: JsonSchema, context?: string): T {
+  const result = validateJsonSchema(value, schema);
+  if (!result.isValid) {
+    throw new JsonSchemaError(result.errors, context);
+  }
+  return value as T;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: JsonSchemaValidationError[]
+): void {
+  const fail = (keyword: string, detail: string) => {
+    errors.push({ path, keyword, message: `${path}: ${detail}` });
+  };
+
+  // Siblings of $ref are ignored in draft-07
+  if (schema.$ref !== undefined) {
+    validateNode(value, resolveRef(schema.$ref, root), path, root, errors);
+    return;
+  }
+
+  const actualType = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = types.some((type) =>
+      type === actualType ||
+      (type === 'integer' && actualType === 'number' && Number.isInteger(value))
+    );
+    if (!matches) {
+      const got = actualType === 'number' && types.includes('integer') ? `number ${value}` : actualType;
+      fail('type', `expected ${types.join(' or ')}, got ${got}`);
+      return;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail('enum', `expected one of ${schema.enum.map(formatValue).join(', ')}, got ${formatValue(value)}`);
+  }
+
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    fail('const', `expected ${formatValue(schema.const)}, got ${formatValue(value)}`);
+  }
+
+  if (typeof value === 'string') {
+    validateString(value, schema, fail);
+  } else if (typeof value === 'number') {
+    validateNumber(value, schema, fail);
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, path, root, errors, fail);
+  } else if (actualType === 'object') {
+    validateObject(value as Record<string, unknown>, schema, path, root, errors, fail);
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    validateNode(value, subschema, path, root, errors);
+  }
+
+  if (schema.anyOf !== undefined && !schema.anyOf.some((sub) => isValid(value, sub, path, root))) {
+    fail('anyOf', `expected to match at least one of ${schema.anyOf.length} schemas in anyOf`);
+  }
+
+  if (schema.oneOf !== undefined) {
+    const matched = schema.oneOf.filter((sub) => isValid(value, sub, path, root)).length;
+    if (matched !== 1) {
+      fail('oneOf', `expected to match exactly one schema in oneOf, matched ${matched}`);
+    }
+  }
+
+  if (schema.not !== undefined && isValid(value, schema.not, path, root)) {
+    fail('not', 'expected not to match the schema in not');
+  }
+}
+
+function validateString(
+  value: string,
+  schema: JsonSchema,
+  fail: (keyword: string, detail: string) => void
+): void {
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    fail('minLength', `expected at least ${schema.minLength} characters, got ${length}`);
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    fail('maxLength', `expected at most ${schema.maxLength} characters, got ${length}`);
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    fail('pattern', `expected to match ${schema.pattern}, got ${formatValue(value)}`);
+  }
+  if (schema.format !== undefined && FORMATS[schema.format] && !FORMATS[schema.format](value)) {
+    fail('format', `expected ${schema.format} format, got ${formatValue(value)}`);
+  }
+}
+
+function validateNumber(
+  value: number,
+  schema: JsonSchema,
+  fail: (keyword: string, detail: string) => void
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    fail('minimum', `expected >= ${schema.minimum}, got ${value}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    fail('maximum', `expected <= ${schema.maximum}, got ${value}`);
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    fail('exclusiveMinimum', `expected > ${schema.exclusiveMinimum}, got ${value}`);
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    fail('exclusiveMaximum', `expected < ${schema.exclusiveMaximum}, got ${value}`);
+  }
+  if (schema.multipleOf !== undefined) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      fail('multipleOf', `expected a multiple of ${schema.multipleOf}, got ${value}`);
+    }
+  }
+}
+
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: JsonSchemaValidationError[],
+  fail: (keyword: string, detail: string) => void
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    fail('minItems', `expected at least ${schema.minItems} items, got ${value.length}`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    fail('maxItems', `expected at most ${schema.maxItems} items, got ${value.length}`);
+  }
+
+  if (schema.uniqueItems) {
+    for (let i = 1; i < value.length; i++) {
+      const duplicate = value.slice(0, i).findIndex((other) => deepEqual(other, value[i]));
+      if (duplicate !== -1) {
+        fail('uniqueItems', `expected unique items, items ${duplicate} and ${i} are equal`);
+        break;
+      }
+    }
+  }
+
+  if (Array.isArray(schema.items)) {
+    schema.items.forEach((itemSchema, i) => {
+      if (i < value.length) {
+        validateNode(value[i], itemSchema, `${path}[${i}]`, root, errors);
+      }
+    });
+    const extra = value.slice(schema.items.length);
+    if (schema.additionalItems === false && extra.length > 0) {
+      fail('additionalItems', `expected at most ${schema.items.length} items, got ${value.length}`);
+    } else if (typeof schema.additionalItems === 'object') {
+      const offset = schema.items.length;
+      const additional = schema.additionalItems;
+      extra.forEach((item, i) => validateNode(item, additional, `${path}[${offset + i}]`, root, errors));
+    }
+  } else if (schema.items !== undefined) {
+    const itemSchema = schema.items;
+    value.forEach((item, i) => validateNode(item, itemSchema, `${path}[${i}]`, root, errors));
+  }
+
+  if (schema.contains !== undefined) {
+    const contains = schema.contains;
+    if (!value.some((item, i) => isValid(item, contains, `${path}[${i}]`, root))) {
+      fail('contains', 'expected at least one item to match the schema in contains');
+    }
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: JsonSchemaValidationError[],
+  fail: (keyword: string, detail: string) => void
+): void {
+  const keys = Object.keys(value);
+
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    fail('minProperties', `expected at least ${schema.minProperties} properties, got ${keys.length}`);
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    fail('maxProperties', `expected at most ${schema.maxProperties} properties, got ${keys.length}`);
+  }
+
+  for (const name of schema.required ?? []) {
+    if (!Object.prototype.hasOwnProperty.call(value, name)) {
+      const propertyPath = joinPath(path, name);
+      errors.push({ path: propertyPath, keyword: 'required', message: `${propertyPath}: is required` });
+    }
+  }
+
+  const patterns = Object.entries(schema.patternProperties ?? {}).map(
+    ([pattern, subschema]) => [new RegExp(pattern, 'u'), subschema] as const
+  );
+
+  for (const key of keys) {
+    const propertyPath = joinPath(path, key);
+    let matched = false;
+
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema !== undefined) {
+      matched = true;
+      validateNode(value[key], propertySchema, propertyPath, root, errors);
+    }
+
+    for (const [pattern, subschema] of patterns) {
+      if (pattern.test(key)) {
+        matched = true;
+        validateNode(value[key], subschema, propertyPath, root, errors);
+      }
+    }
+
+    if (!matched) {
+      if (schema.additionalProperties === false) {
+        errors.push({
+          path: propertyPath,
+          keyword: 'additionalProperties',
+          message: `${propertyPath}: is not allowed`,
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(value[key], schema.additionalProperties, propertyPath, root, errors);
+      }
+    }
+  }
+}
+
+function isValid(value: unknown, schema: JsonSchema, path: string, root: JsonSchema): boolean {
+  const errors: JsonSchemaValidationError[] = [];
+  validateNode(value, schema, path, root, errors);
+  return errors.length === 0;
+}
+
+/**
+ * Resolve a local reference such as '#/definitions/Item'
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local $ref values are supported: ${ref}`);
+  }
+
+  let target: unknown = root;
+  const segments = ref.slice(1).split('/').filter(Boolean);
+  for (const segment of segments) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = (target as Record<string, unknown> | undefined)?.[key];
+  }
+
+  if (!target || typeof target !== 'object') {
+    throw new Error(`Unresolvable $ref: ${ref}`);
+  }
+  return target as JsonSchema;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every((key) => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function formatValue(value: unknown): string {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > 50 ? `${text.slice(0, 50)}...` : text;
+}
@@ -311,44 +311,54 @@ export function createLocatorBuilder(page: Page): LocatorBuilder {
  * Get best selector for an element (for debugging/generation)
  */
 export async function suggestSelector(_page: Page, locator: Locator): Promise<string[]> {
-  const suggestions: string[] = [];
-
   try {
-    // Try to get various attributes
-    const id = await locator.getAttribute('id');
-    const testId = await locator.getAttribute('data-testid');
-    const ariaLabel = await locator.getAttribute('aria-label');
-    const name = await locator.getAttribute('name');
-    const className = await locator.getAttribute('class');
-    const role = await locator.getAttribute('role');
-
-    // Priority order for selectors
-    if (testId) {
-      suggestions.push(`[data-testid="${testId}"]`);
-    }
-    if (id) {
-      suggestions.push(`#${id}`);
-    }
-    if (ariaLabel) {
-      suggestions.push(`[aria-label="${ariaLabel}"]`);
-    }
-    if (role) {
-      const roleSelector = ariaLabel
-        ? `role=${role}[name="${ariaLabel}"]`
-        : `role=${role}`;
-      suggestions.push(roleSelector);
-    }
-    if (name) {
-      suggestions.push(`[name="${name}"]`);
-    }
-    if (className) {
-      const classes = className.split(' ').filter((c) => c.length > 0);
-      if (classes.length > 0) {
-        suggestions.push(`.${classes[0]}`);
-      }
-    }
+    const attributes = await locator.evaluate((el, names) =>
+      Object.fromEntries(names.map((name) => [name, el.getAttribute(name)])),
+      SUGGESTION_ATTRIBUTES
+    );
+    return selectorSuggestions(attributes);
   } catch {
     // Element might not be accessible
+    return [];
+  }
+}
+
+/**
+ * Attributes read by suggestSelector(), for callers that read them in their own evaluate
+ */
+export const SUGGESTION_ATTRIBUTES = ['id', 'data-testid', 'aria-label', 'name', 'class', 'role'];
+
+/**
+ * Build selector suggestions, best first, from an element's attributes
+ */
+export function selectorSuggestions(attributes: Record<string, string | null>): string[] {
+  const suggestions: string[] = [];
+  const { id, 'data-testid': testId, 'aria-label': ariaLabel, name, class: className, role } = attributes;
+
+  // Priority order for selectors
+  if (testId) {
+    suggestions.push(`[data-testid="${testId}"]`);
+  }
+  if (id) {
+    suggestions.push(`#${id}`);
+  }
+  if (ariaLabel) {
+    suggestions.push(`[aria-label="${ariaLabel}"]`);
+  }
+  if (role) {
+    const roleSelector = ariaLabel
+      ? `role=${role}[name="${ariaLabel}"]`
+      : `role=${role}`;
+    suggestions.push(roleSelector);
+  }
+  if (name) {
+    suggestions.push(`[name="${name}"]`);
+  }
+  if (className) {
+    const classes = className.split(' ').filter((c) => c.length > 0);
+    if (classes.length > 0) {
+      suggestions.push(`.${classes[0]}`);
+    }
   }
 
   return suggestions;
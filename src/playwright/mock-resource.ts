@@ -0,0 +1,276 @@
+/**
+ * Playwright Mock Resource
+ * Stateful in-memory REST backend served through page.route
+ */
+
+import type { Page, Route } from '@playwright/test';
+import type { MockErrorRule, MockResourceOptions } from '../types';
+import { createRng, generateSeed } from '../generators/random';
+import { getRouteRegistry, extendRouteHandle } from './route-registry';
+import type { RouteHandle } from './route-registry';
+import { sleep } from './utils';
+
+/**
+ * Handle to a mounted mock resource
+ */
+export interface MockResource<T extends Record<string, unknown>> extends RouteHandle {
+  /** Snapshot of the current rows */
+  readonly rows: T[];
+  /** Find a row by id */
+  get(id: string | number): T | undefined;
+  /** Restore the seed rows */
+  reset(): void;
+  /** Add an error injection rule */
+  injectError(rule: MockErrorRule): void;
+  /** Remove all error injection rules */
+  clearErrors(): void;
+  /** Unmount the resource (same as dispose) */
+  stop(): Promise<void>;
+}
+
+/**
+ * Mount a CRUD resource at basePath (e.g. '/api/users')
+ *
+ * Supports GET list, GET by id, POST, PUT, PATCH and DELETE. List requests accept
+ * pagination, sort and equality filters on any other query param.
+ */
+export async function mountResource<T extends Record<string, unknown>>(
+  page: Page,
+  basePath: string,
+  options: MockResourceOptions<T> = {}
+): Promise<MockResource<T>> {
+  const {
+    seed = [],
+    idField = 'id',
+    generateId = defaultGenerateId(idField),
+    pageParam = 'page',
+    limitParam = 'limit',
+    sortParam = 'sort',
+    orderParam = 'order',
+    envelope = false,
+    latency = 0,
+    rng = createRng(generateSeed()),
+    times,
+    scope,
+  } = options;
+
+  const normalizedBase = '/' + basePath.replace(/^\/+|\/+$/g, '');
+  const reservedParams = [pageParam, limitParam, sortParam, orderParam];
+
+  let rows: T[] = clone(seed);
+  let errorRules: Array<MockErrorRule & { remaining: number }> = (options.errors ?? []).map(toActiveRule);
+
+  const findIndex = (id: string) => rows.findIndex((row) => String(row[idField]) === id);
+
+  const matcher = (url: URL): boolean =>
+    url.pathname === normalizedBase || url.pathname.startsWith(`${normalizedBase}/`);
+
+  const handler = async (route: Route) => {
+    const request = route.request();
+    const url = new URL(request.url());
+    const method = request.method().toUpperCase();
+    const segments = url.pathname.slice(normalizedBase.length).split('/').filter(Boolean);
+    const id = segments[0] ?? null;
+
+    if (latency > 0) {
+      await sleep(latency);
+    }
+
+    // Nested paths such as /users/1/comments are not part of the resource
+    if (segments.length > 1) {
+      await fulfillJson(route, 404, { error: 'Not found' });
+      return;
+    }
+
+    // Error injection
+    const target = id === null ? 'collection' : 'item';
+    const rule = errorRules.find(
+      (r) =>
+        r.remaining > 0 &&
+        (!r.method || r.method.toUpperCase() === method) &&
+        (!r.target || r.target === target)
+    );
+    if (rule && (rule.probability === undefined || rule.probability >= 1 || rng.randomBoolean(rule.probability))) {
+      rule.remaining--;
+      await fulfillJson(route, rule.status, rule.body ?? { error: 'Injected error' });
+      return;
+    }
+
+    let body: Partial<T> = {};
+    if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
+      const parsed = parseBody(request.postData());
+      if (!parsed.ok) {
+        await fulfillJson(route, 400, { error: 'Request body is not valid JSON' });
+        return;
+      }
+      if (!isPlainObject(parsed.value)) {
+        await fulfillJson(route, 400, { error: 'Request body must be a JSON object' });
+        return;
+      }
+      body = parsed.value as Partial<T>;
+    }
+
+    if (id === null) {
+      switch (method) {
+        case 'GET': {
+          let result = rows.filter((row) =>
+            [...url.searchParams.entries()]
+              .filter(([name]) => !reservedParams.includes(name))
+              .every(([name, value]) => String(row[name]) === value)
+          );
+
+          const sortField = url.searchParams.get(sortParam);
+          if (sortField) {
+            const direction = url.searchParams.get(orderParam) === 'desc' ? -1 : 1;
+            result = [...result].sort((a, b) => compareValues(a[sortField], b[sortField]) * direction);
+          }
+
+          const total = result.length;
+          const limit = Number(url.searchParams.get(limitParam)) || 0;
+          const pageNumber = Math.max(1, Number(url.searchParams.get(pageParam)) || 1);
+          if (limit > 0) {
+            result = result.slice((pageNumber - 1) * limit, pageNumber * limit);
+          }
+
+          if (envelope) {
+            await fulfillJson(route, 200, { data: result, total, page: pageNumber, limit: limit || total });
+          } else {
+            await fulfillJson(route, 200, result, { 'X-Total-Count': String(total) });
+          }
+          return;
+        }
+
+        case 'POST': {
+          const row = { ...body } as Record<string, unknown>;
+          if (row[idField] === undefined) {
+            row[idField] = generateId(rows);
+          }
+          if (findIndex(String(row[idField])) !== -1) {
+            await fulfillJson(route, 409, { error: `Duplicate ${idField}: ${row[idField]}` });
+            return;
+          }
+          rows.push(row as T);
+          await fulfillJson(route, 201, row);
+          return;
+        }
+
+        default:
+          await fulfillJson(route, 405, { error: `Method ${method} not allowed` });
+          return;
+      }
+    }
+
+    const index = findIndex(id);
+    if (index === -1) {
+      await fulfillJson(route, 404, { error: 'Not found' });
+      return;
+    }
+
+    switch (method) {
+      case 'GET':
+        await fulfillJson(route, 200, rows[index]);
+        return;
+
+      case 'PUT': {
+        rows[index] = { ...body, [idField]: rows[index][idField] } as T;
+        await fulfillJson(route, 200, rows[index]);
+        return;
+      }
+
+      case 'PATCH': {
+        rows[index] = { ...rows[index], ...body, [idField]: rows[index][idField] } as T;
+        await fulfillJson(route, 200, rows[index]);
+        return;
+      }
+
+      case 'DELETE':
+        rows.splice(index, 1);
+        await route.fulfill({ status: 204, body: '' });
+        return;
+
+      default:
+        await fulfillJson(route, 405, { error: `Method ${method} not allowed` });
+    }
+  };
+
+  const routeHandle = await getRouteRegistry(page).add('mockResource', matcher, handler, { times, scope }, {
+    description: normalizedBase,
+  });
+
+  return extendRouteHandle<MockResource<T>>(routeHandle, {
+    get rows() {
+      return clone(rows);
+    },
+    get(id) {
+      const index = findIndex(String(id));
+      return index === -1 ? undefined : clone([rows[index]])[0];
+    },
+    reset() {
+      rows = clone(seed);
+      errorRules = (options.errors ?? []).map(toActiveRule);
+    },
+    injectError(rule) {
+      errorRules.push(toActiveRule(rule));
+    },
+    clearErrors() {
+      errorRules = [];
+    },
+    stop: routeHandle.dispose,
+  });
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function fulfillJson(
+  route: Route,
+  status: number,
+  body: unknown,
+  headers?: Record<string, string>
+): Promise<void> {
+  await route.fulfill({
+    status,
+    headers,
+    contentType: 'application/json',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+/**
+ * Parse a JSON request body; an empty body parses as {}
+ */
+function parseBody(postData: string | null): { ok: true; value: unknown } | { ok: false } {
+  if (!postData) return { ok: true, value: {} };
+  try {
+    return { ok: true, value: JSON.parse(postData) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function defaultGenerateId(idField: string) {
+  return (rows: Record<string, unknown>[]): number => {
+    const ids = rows.map((row) => Number(row[idField])).filter((n) => !isNaN(n));
+    return ids.length > 0 ? Math.max(...ids) + 1 : 1;
+  };
+}
+
+function toActiveRule(rule: MockErrorRule): MockErrorRule & { remaining: number } {
+  return { ...rule, remaining: rule.times ?? Infinity };
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
@@ -3,17 +3,79 @@
  * Utilities for network operations, cookies, and request interception
  */
 
-import type { Page, Route, BrowserContext, APIRequestContext } from '@playwright/test';
-import type { RequestOptions, CookieOptions, MockResponse } from '../types';
+import type { Page, Route, BrowserContext, APIRequestContext, APIResponse } from '@playwright/test';
+import type {
+  RequestOptions,
+  CookieOptions,
+  MockResponse,
+  HarRecordOptions,
+  HarReplayOptions,
+  MockResourceOptions,
+  ApiClientOptions,
+  ApiRequestConfig,
+  ApiRequestInterceptor,
+  ApiResponseInterceptor,
+  ApiResponse,
+  ApiResponseType,
+  RetryPolicy,
+  JsonSchema,
+  GraphQLMockOptions,
+  GraphQLMockResult,
+  GraphQLWaitOptions,
+  GraphQLCapture,
+  GraphQLResponseBody,
+  NetworkRecorderOptions,
+  NetworkConditions,
+  NetworkProfileName,
+  ThrottleOptions,
+  FaultRule,
+  FaultInjectionOptions,
+  UrlFilter,
+  RouteOptions,
+  RouteHandleInfo,
+  SessionState,
+  SessionStateOptions,
+  WebSocketMockOptions,
+  SSEEvent,
+  SSEMockOptions,
+} from '../types';
+import { recordHar, replayHar, useHar } from './har-helpers';
+import type { HarRecorder, HarReplay } from './har-helpers';
+import { mountResource } from './mock-resource';
+import type { MockResource } from './mock-resource';
+import { runWithRetry } from './retry-policy';
+import { assertJsonSchema } from './json-schema';
+import { mockGraphQL, waitForGraphQL, captureGraphQL, parseOperationName, GraphQLError } from './graphql-helpers';
+import type { GraphQLMock } from './graphql-helpers';
+import { createNetworkRecorder } from './network-recorder';
+import type { NetworkRecorder } from './network-recorder';
+import { throttleNetwork } from './network-throttle';
+import type { NetworkThrottle } from './network-throttle';
+import { injectFaults } from './fault-injection';
+import type { FaultInjector } from './fault-injection';
+import { getRouteRegistry } from './route-registry';
+import type { RouteHandle, RouteRegistry } from './route-registry';
+import { saveSessionState, restoreSessionState } from './session-state';
+import { mockWebSocket } from './websocket-mock';
+import type { WebSocketMock } from './websocket-mock';
+import { mockSSE } from './sse-mock';
+import type { SSEMock } from './sse-mock';
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const MAX_ERROR_BODY_LENGTH = 500;
 
 /**
  * NetworkHelpers - Utilities for network operations
  */
 export class NetworkHelpers {
+  private readonly routes: RouteRegistry;
+
   constructor(
     protected readonly page: Page,
     protected readonly context?: BrowserContext
-  ) {}
+  ) {
+    this.routes = getRouteRegistry(page, context);
+  }
 
   // ============================================================================
   // API Calls (using page context - shares cookies)
@@ -224,51 +286,88 @@ export class NetworkHelpers {
    */
   async interceptRequest(
     pattern: string | RegExp,
-    handler: (route: Route) => Promise<void> | void
-  ): Promise<void> {
-    await this.page.route(pattern, handler);
+    handler: (route: Route) => Promise<void> | void,
+    options: RouteOptions = {}
+  ): Promise<RouteHandle> {
+    return this.routes.add('interceptRequest', pattern, handler, options);
   }
 
   /**
    * Mock response for matching requests
+   * @example
+   * const mock = await network.mockResponse('/api/user', { body: { id: 1 } }, { times: 1 });
+   * await mock.dispose();
    */
-  async mockResponse(pattern: string | RegExp, response: MockResponse): Promise<void> {
-    await this.page.route(pattern, async (route) => {
+  async mockResponse(
+    pattern: string | RegExp,
+    response: MockResponse,
+    options: RouteOptions = {}
+  ): Promise<RouteHandle> {
+    return this.routes.add('mockResponse', pattern, async (route) => {
       await route.fulfill({
         status: response.status || 200,
         headers: response.headers,
         body: typeof response.body === 'object' ? JSON.stringify(response.body) : response.body,
         contentType: response.contentType || 'application/json',
       });
-    });
+    }, options);
+  }
+
+  /**
+   * Mount a stateful in-memory CRUD resource (e.g. '/api/users')
+   */
+  async mockResource<T extends Record<string, unknown>>(
+    basePath: string,
+    options: MockResourceOptions<T> = {}
+  ): Promise<MockResource<T>> {
+    return mountResource(this.page, basePath, options);
   }
 
   /**
    * Block requests matching pattern
    */
-  async blockRequests(pattern: string | RegExp): Promise<void> {
-    await this.page.route(pattern, (route) => route.abort());
+  async blockRequests(pattern: string | RegExp, options: RouteOptions = {}): Promise<RouteHandle> {
+    return this.routes.add('blockRequests', pattern, (route) => route.abort(), options);
   }
 
   /**
    * Block specific resource types
    */
-  async blockResourceTypes(types: Array<'image' | 'stylesheet' | 'font' | 'media' | 'script'>): Promise<void> {
-    await this.page.route('**/*', (route) => {
+  async blockResourceTypes(
+    types: Array<'image' | 'stylesheet' | 'font' | 'media' | 'script'>,
+    options: RouteOptions = {}
+  ): Promise<RouteHandle> {
+    return this.routes.add('blockResourceTypes', '**/*', (route) => {
       const resourceType = route.request().resourceType();
       if (types.includes(resourceType as typeof types[number])) {
         route.abort();
       } else {
         route.continue();
       }
-    });
+    }, options);
   }
 
   /**
-   * Remove all route handlers
+   * Remove the route handlers registered through these helpers, or on this
+   * page by the standalone helpers (mountResource, replayHar, injectFaults, ...)
+   * Handlers added directly with page.route() (e.g. by fixtures) are kept.
    */
   async clearRoutes(): Promise<void> {
-    await this.page.unrouteAll();
+    await this.routes.disposeAll();
+  }
+
+  /**
+   * List the route handlers registered through these helpers that are still active
+   */
+  getActiveRoutes(): RouteHandleInfo[] {
+    return this.routes.active;
+  }
+
+  /**
+   * Describe active route handlers, one per line (for debugging)
+   */
+  describeRoutes(): string {
+    return this.routes.describe();
   }
 
   // ============================================================================
@@ -277,41 +376,163 @@ export class NetworkHelpers {
 
   /**
    * Wait for and capture response
+   * @throws JsonSchemaError when the body does not match options.schema
    */
   async captureResponse<T>(
     pattern: string | RegExp,
-    action: () => Promise<void>
+    action: () => Promise<void>,
+    options: { schema?: JsonSchema } = {}
   ): Promise<T> {
     const responsePromise = this.page.waitForResponse(pattern);
     await action();
     const response = await responsePromise;
-    return response.json() as Promise<T>;
+    const body = await response.json();
+    if (options.schema) {
+      assertJsonSchema(body, options.schema, `${response.request().method()} ${response.url()}`);
+    }
+    return body as T;
   }
 
   /**
    * Collect all responses matching pattern during action
+   * Bodies still being read when the action resolves are waited for.
+   * @throws Error for the first body that is not JSON, JsonSchemaError for the first that fails the schema
    */
   async collectResponses<T>(
     pattern: string | RegExp,
-    action: () => Promise<void>
+    action: () => Promise<void>,
+    options: { schema?: JsonSchema } = {}
   ): Promise<T[]> {
-    const responses: T[] = [];
+    const pending: Promise<T>[] = [];
+
+    const read = async (response: Awaited<ReturnType<Page['waitForResponse']>>): Promise<T> => {
+      const label = `${response.request().method()} ${response.url()}`;
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch (error) {
+        throw new Error(`${label} returned ${response.status()} with a body that is not JSON: ${(error as Error).message}`);
+      }
+      if (options.schema) {
+        assertJsonSchema(body, options.schema, label);
+      }
+      return body as T;
+    };
 
-    const handler = async (response: Awaited<ReturnType<Page['waitForResponse']>>) => {
-      if (typeof pattern === 'string') {
-        if (response.url().includes(pattern)) {
-          responses.push(await response.json());
-        }
-      } else if (pattern.test(response.url())) {
-        responses.push(await response.json());
+    const handler = (response: Awaited<ReturnType<Page['waitForResponse']>>) => {
+      const matches = typeof pattern === 'string' ? response.url().includes(pattern) : pattern.test(response.url());
+      if (matches) {
+        pending.push(read(response));
       }
     };
 
     this.page.on('response', handler);
-    await action();
-    this.page.off('response', handler);
+    try {
+      await action();
+    } finally {
+      this.page.off('response', handler);
+    }
+
+    // Errors are rethrown here since throwing inside the listener would go unhandled
+    const settled = await Promise.allSettled(pending);
+    const failure = settled.find((result) => result.status === 'rejected');
+    if (failure) {
+      throw (failure as PromiseRejectedResult).reason;
+    }
+    return settled.map((result) => (result as PromiseFulfilledResult<T>).value);
+  }
+
+  // ============================================================================
+  // Request Log
+  // ============================================================================
+
+  /**
+   * Start recording every request on the page
+   */
+  recordRequests(options: NetworkRecorderOptions = {}): NetworkRecorder {
+    return createNetworkRecorder(this.page, options).start();
+  }
+
+  // ============================================================================
+  // GraphQL
+  // ============================================================================
+
+  /**
+   * Mock a GraphQL operation by operation name (and optionally variables)
+   */
+  async mockGraphQL(
+    operationName: string,
+    result: GraphQLMockResult,
+    options: GraphQLMockOptions = {}
+  ): Promise<GraphQLMock> {
+    return mockGraphQL(this.page, operationName, result, options);
+  }
+
+  /**
+   * Wait for the response to a GraphQL operation
+   */
+  async waitForGraphQL<T = unknown>(
+    operationName: string,
+    options: GraphQLWaitOptions = {}
+  ): Promise<GraphQLCapture<T>> {
+    return waitForGraphQL<T>(this.page, operationName, options);
+  }
 
-    return responses;
+  /**
+   * Run an action and capture the GraphQL operation it triggers
+   */
+  async captureGraphQL<T = unknown>(
+    operationName: string,
+    action: () => Promise<unknown>,
+    options: GraphQLWaitOptions = {}
+  ): Promise<GraphQLCapture<T>> {
+    return captureGraphQL<T>(this.page, operationName, action, options);
+  }
+
+  // ============================================================================
+  // WebSocket & Server-Sent Events
+  // ============================================================================
+
+  /**
+   * Intercept WebSockets matching pattern: script server frames and record client frames
+   */
+  async mockWebSocket(pattern: UrlFilter, options: WebSocketMockOptions = {}): Promise<WebSocketMock> {
+    return mockWebSocket(this.page, pattern, options);
+  }
+
+  /**
+   * Serve a timed sequence of Server-Sent Events for matching requests
+   */
+  async mockSSE(pattern: UrlFilter, events: SSEEvent[], options: SSEMockOptions = {}): Promise<SSEMock> {
+    return mockSSE(this.page, pattern, events, options);
+  }
+
+  // ============================================================================
+  // HAR Record & Replay
+  // ============================================================================
+
+  /**
+   * Record matching requests/responses to a HAR-like JSON file until stop() is called
+   */
+  recordHar(filePath: string, options: HarRecordOptions = {}): HarRecorder {
+    return recordHar(this.page, filePath, options);
+  }
+
+  /**
+   * Serve responses from a recorded HAR file
+   */
+  async replayHar(filePath: string, options: HarReplayOptions = {}): Promise<HarReplay> {
+    return replayHar(this.page, filePath, options);
+  }
+
+  /**
+   * Replay the HAR file if it exists, otherwise record it
+   */
+  async useHar(
+    filePath: string,
+    options: HarRecordOptions & HarReplayOptions = {}
+  ): Promise<HarRecorder | HarReplay> {
+    return useHar(this.page, filePath, options);
   }
 
   // ============================================================================
@@ -367,18 +588,65 @@ export class NetworkHelpers {
     await this.page.evaluate(() => sessionStorage.clear());
   }
 
+  // ============================================================================
+  // Session State
+  // ============================================================================
+
+  /**
+   * Save cookies, localStorage, sessionStorage and IndexedDB to a file
+   * Pass encryptionKey to encrypt the file at rest.
+   */
+  async saveSessionState(filePath: string, options: SessionStateOptions = {}): Promise<SessionState> {
+    return saveSessionState(this.page, filePath, options);
+  }
+
+  /**
+   * Restore a state saved with saveSessionState()
+   */
+  async restoreSessionState(filePath: string, options: SessionStateOptions = {}): Promise<SessionState> {
+    return restoreSessionState(this.page, filePath, options);
+  }
+
   // ============================================================================
   // Network Conditions
   // ============================================================================
 
   /**
-   * Simulate slow network
+   * Apply a named network profile or custom conditions
+   * Uses CDP on Chromium and route shaping elsewhere or when a pattern is given.
+   */
+  async throttle(
+    profile: NetworkProfileName | NetworkConditions,
+    options: ThrottleOptions = {}
+  ): Promise<NetworkThrottle> {
+    return throttleNetwork(this.page, profile, options);
+  }
+
+  /**
+   * Inject faults (error statuses, aborts, hangs, truncation, latency) into matching requests
+   * @example
+   * const faults = await network.injectFaults('/api/orders', [
+   *   { type: 'status', status: 500, probability: 0.5 },
+   *   { type: 'hang', nth: 3 },
+   * ]);
+   * console.log(faults.getSummary().text);
+   */
+  async injectFaults(
+    pattern: UrlFilter,
+    rules: FaultRule[],
+    options: FaultInjectionOptions = {}
+  ): Promise<FaultInjector> {
+    return injectFaults(this.page, pattern, rules, options);
+  }
+
+  /**
+   * Simulate slow network (latency only; see throttle() for bandwidth profiles)
    */
-  async simulateSlowNetwork(latencyMs: number = 2000): Promise<void> {
-    await this.page.route('**/*', async (route) => {
+  async simulateSlowNetwork(latencyMs: number = 2000, options: RouteOptions = {}): Promise<RouteHandle> {
+    return this.routes.add('simulateSlowNetwork', '**/*', async (route) => {
       await new Promise((resolve) => setTimeout(resolve, latencyMs));
       await route.continue();
-    });
+    }, options);
   }
 
   /**
@@ -411,60 +679,341 @@ export function createNetworkHelpers(page: Page, context?: BrowserContext): Netw
 // Standalone API Helpers (using APIRequestContext)
 // ============================================================================
 
+/**
+ * Per-request options for ApiClient
+ */
+export interface ApiRequestOptions {
+  headers?: Record<string, string>;
+  /** Request body, sent as JSON */
+  data?: unknown;
+  /** Override the client retry policy for this request */
+  retry?: RetryPolicy;
+  /** Override the client throwOnError setting for this request */
+  throwOnError?: boolean;
+  /** Override the client responseType setting for this request */
+  responseType?: ApiResponseType;
+  /** Validate 2xx bodies against this JSON schema */
+  schema?: JsonSchema;
+}
+
+/**
+ * Error thrown for non-2xx responses when throwOnError is enabled
+ */
+export class ApiError extends Error {
+  readonly method: string;
+  readonly url: string;
+  readonly status: number;
+  /** Response body as text, truncated to 500 characters */
+  readonly body: string;
+
+  constructor(public readonly response: ApiResponse, bodyText: string) {
+    const body = bodyText.length > MAX_ERROR_BODY_LENGTH
+      ? `${bodyText.slice(0, MAX_ERROR_BODY_LENGTH)}... (${bodyText.length} chars)`
+      : bodyText;
+    super(
+      `${response.method} ${response.url} failed with ${response.status} ${response.statusText}` +
+      (body ? `\n${body}` : '')
+    );
+    this.name = 'ApiError';
+    this.method = response.method;
+    this.url = response.url;
+    this.status = response.status;
+    this.body = body;
+  }
+}
+
 /**
  * API client wrapper for Playwright's request context
+ *
+ * The get/post/put/patch/delete shortcuts return the decoded body; use
+ * `request()` for the full response envelope. When a retry policy is set,
+ * network errors and 408/429/500/502/503/504 responses are retried unless
+ * the policy's `retryOn` says otherwise.
+ *
+ * @example
+ * const api = createApiClient(request, {
+ *   baseURL: 'https://api.example.com/v1',
+ *   headers: { 'Accept-Language': 'en' },
+ *   auth: { type: 'bearer', refresh: () => login('admin') },
+ * });
  */
 export class ApiClient {
-  constructor(private request: APIRequestContext) {}
+  private readonly requestInterceptors: ApiRequestInterceptor[];
+  private readonly responseInterceptors: ApiResponseInterceptor[];
+  private token?: string;
 
-  async get<T>(url: string, options?: { headers?: Record<string, string> }): Promise<T> {
-    const response = await this.request.get(url, options);
-    return response.json();
+  constructor(
+    private requestContext: APIRequestContext,
+    private options: ApiClientOptions = {}
+  ) {
+    this.requestInterceptors = [...(options.requestInterceptors ?? [])];
+    this.responseInterceptors = [...(options.responseInterceptors ?? [])];
+    if (options.auth?.type === 'bearer') {
+      this.token = options.auth.token;
+    }
   }
 
-  async post<T>(url: string, data?: unknown, options?: { headers?: Record<string, string> }): Promise<T> {
-    const response = await this.request.post(url, {
-      data,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
+  async get<T>(url: string, options?: ApiRequestOptions): Promise<T> {
+    return (await this.request<T>('GET', url, options)).body;
+  }
+
+  async post<T>(url: string, data?: unknown, options?: ApiRequestOptions): Promise<T> {
+    return (await this.request<T>('POST', url, { ...options, data })).body;
+  }
+
+  async put<T>(url: string, data?: unknown, options?: ApiRequestOptions): Promise<T> {
+    return (await this.request<T>('PUT', url, { ...options, data })).body;
+  }
+
+  async delete<T>(url: string, options?: ApiRequestOptions): Promise<T> {
+    return (await this.request<T>('DELETE', url, options)).body;
+  }
+
+  async patch<T>(url: string, data?: unknown, options?: ApiRequestOptions): Promise<T> {
+    return (await this.request<T>('PATCH', url, { ...options, data })).body;
+  }
+
+  /**
+   * Run a GraphQL query or mutation and return its data
+   * @throws GraphQLError when the response contains errors
+   * @throws ApiError for non-2xx responses without GraphQL errors
+   *
+   * @example
+   * const { user } = await api.graphql<{ user: User }>(
+   *   'query GetUser($id: ID!) { user(id: $id) { id name } }',
+   *   { id: '1' }
+   * );
+   */
+  async graphql<T = unknown>(
+    query: string,
+    variables: Record<string, unknown> = {},
+    options: Omit<ApiRequestOptions, 'data'> & { endpoint?: string; operationName?: string } = {}
+  ): Promise<T> {
+    const { endpoint = '/graphql', operationName, ...requestOptions } = options;
+    const response = await this.request<GraphQLResponseBody<T>>('POST', endpoint, {
+      ...requestOptions,
+      throwOnError: false,
+      responseType: 'auto',
+      data: { query, variables, ...(operationName ? { operationName } : {}) },
     });
-    return response.json();
+
+    const body: GraphQLResponseBody<T> = response.body && typeof response.body === 'object' ? response.body : {};
+    if (body.errors && body.errors.length > 0) {
+      throw new GraphQLError(body.errors, operationName ?? parseOperationName(query), body.data ?? null);
+    }
+    if (!response.ok) {
+      throw new ApiError(response, typeof response.body === 'string' ? response.body : JSON.stringify(body));
+    }
+    return body.data as T;
   }
 
-  async put<T>(url: string, data?: unknown, options?: { headers?: Record<string, string> }): Promise<T> {
-    const response = await this.request.put(url, {
-      data,
+  /**
+   * Send a request and return the full response envelope
+   * @throws ApiError for non-2xx responses when throwOnError is enabled
+   * @throws JsonSchemaError when a 2xx body does not match options.schema
+   *
+   * @example
+   * const response = await api.request<User>('GET', '/api/users/1');
+   * expect(response.status).toBe(200);
+   * expect(response.headers['content-type']).toContain('json');
+   */
+  async request<T = unknown>(
+    method: string,
+    url: string,
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    const {
+      throwOnError = this.options.throwOnError ?? false,
+      responseType = this.options.responseType ?? 'auto',
+    } = options;
+    const upperMethod = method.toUpperCase();
+
+    let config: ApiRequestConfig = {
+      method: upperMethod,
+      url: this.resolveUrl(url),
       headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
+        ...(upperMethod === 'GET' || upperMethod === 'DELETE' ? {} : { 'Content-Type': 'application/json' }),
+        ...this.options.headers,
+        ...(await this.getAuthHeaders()),
+        ...options.headers,
       },
-    });
-    return response.json();
+      data: options.data,
+    };
+    for (const interceptor of this.requestInterceptors) {
+      config = (await interceptor(config)) ?? config;
+    }
+
+    const startTime = Date.now();
+    let response = await this.send(config, options.retry);
+
+    // Re-authenticate once on 401
+    const auth = this.options.auth;
+    if (response.status() === 401 && auth?.type === 'bearer' && auth.refresh) {
+      await response.dispose();
+      this.token = await auth.refresh();
+      config = { ...config, headers: { ...config.headers, Authorization: `Bearer ${this.token}` } };
+      response = await this.send(config, options.retry);
+    }
+
+    const buffer = await response.body();
+    const bodyText = buffer.toString('utf8');
+
+    let envelope: ApiResponse<T> = {
+      method: upperMethod,
+      url: response.url(),
+      status: response.status(),
+      statusText: response.statusText(),
+      ok: response.ok(),
+      headers: response.headers(),
+      body: undefined as T,
+      timing: { startTime, duration: Date.now() - startTime },
+    };
+
+    try {
+      envelope.body = decodeBody(buffer, envelope, responseType) as T;
+    } catch (error) {
+      // Report the failed status rather than a decoding error
+      if (envelope.ok || !throwOnError) throw error;
+      envelope.body = bodyText as T;
+    }
+
+    for (const interceptor of this.responseInterceptors) {
+      envelope = ((await interceptor(envelope)) as ApiResponse<T> | undefined) ?? envelope;
+    }
+
+    if (!envelope.ok && throwOnError) {
+      throw new ApiError(envelope, bodyText);
+    }
+    if (envelope.ok && options.schema) {
+      assertJsonSchema(envelope.body, options.schema, `${upperMethod} ${envelope.url}`);
+    }
+    return envelope;
+  }
+
+  /**
+   * Add a request interceptor, returning a function that removes it
+   */
+  onRequest(interceptor: ApiRequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => removeItem(this.requestInterceptors, interceptor);
   }
 
-  async delete<T>(url: string, options?: { headers?: Record<string, string> }): Promise<T> {
-    const response = await this.request.delete(url, options);
-    return response.json();
+  /**
+   * Add a response interceptor, returning a function that removes it
+   */
+  onResponse(interceptor: ApiResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => removeItem(this.responseInterceptors, interceptor);
   }
 
-  async patch<T>(url: string, data?: unknown, options?: { headers?: Record<string, string> }): Promise<T> {
-    const response = await this.request.patch(url, {
-      data,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private resolveUrl(url: string): string {
+    const { baseURL } = this.options;
+    if (!baseURL || /^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+      return url;
+    }
+    return `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+  }
+
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const auth = this.options.auth;
+    switch (auth?.type) {
+      case 'bearer':
+        if (this.token === undefined && auth.refresh) {
+          this.token = await auth.refresh();
+        }
+        return this.token === undefined ? {} : { Authorization: `Bearer ${this.token}` };
+      case 'basic':
+        return {
+          Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`,
+        };
+      case 'apiKey':
+        return { [auth.header ?? 'X-API-Key']: auth.key };
+      default:
+        return {};
+    }
+  }
+
+  private async send(config: ApiRequestConfig, retry: RetryPolicy | undefined): Promise<APIResponse> {
+    const { method, url, headers, data } = config;
+    const fetch = () => this.requestContext.fetch(url, { method, data, headers });
+
+    const policy = retry ?? this.options.retry;
+    if (!policy) {
+      return fetch();
+    }
+    return runWithRetry<APIResponse>(fetch, {
+      ...policy,
+      retryOn: policy.retryOn ?? [Error, ...RETRYABLE_STATUSES],
+      onRetry: async (context) => {
+        await policy.onRetry?.(context);
+        // Responses retried by status are discarded; free their bodies
+        await context.result?.dispose();
       },
     });
-    return response.json();
   }
 }
 
 /**
  * Create ApiClient instance
  */
-export function createApiClient(request: APIRequestContext): ApiClient {
-  return new ApiClient(request);
+export function createApiClient(request: APIRequestContext, options?: ApiClientOptions): ApiClient {
+  return new ApiClient(request, options);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function removeItem<T>(items: T[], item: T): void {
+  const index = items.indexOf(item);
+  if (index !== -1) {
+    items.splice(index, 1);
+  }
+}
+
+/**
+ * Decode a response body according to the requested type
+ */
+function decodeBody(buffer: Buffer, response: ApiResponse, responseType: ApiResponseType): unknown {
+  if (responseType === 'buffer') {
+    return buffer;
+  }
+
+  const text = buffer.toString('utf8');
+  if (responseType === 'text') {
+    return text;
+  }
+
+  // Bodies without a content type are treated as JSON when they parse
+  const contentType = response.headers['content-type'] ?? '';
+  if (responseType === 'json' || contentType === '' || /[/+]json\b/i.test(contentType)) {
+    if (text.trim() === '') {
+      return null;
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      if (responseType === 'json') {
+        const snippet = text.length > 200 ? `${text.slice(0, 200)}...` : text;
+        throw new Error(
+          `${response.method} ${response.url} returned ${response.status} with invalid JSON ` +
+          `(content-type: ${contentType || 'none'}): ${snippet}`
+        );
+      }
+      return text;
+    }
+  }
+
+  if (buffer.length === 0) {
+    return null;
+  }
+  if (/^text\/|xml|javascript|x-www-form-urlencoded/i.test(contentType)) {
+    return text;
+  }
+  return buffer;
 }
 
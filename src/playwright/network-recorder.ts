@@ -0,0 +1,324 @@
+/**
+ * Playwright Network Recorder
+ * Record every request on a page and assert on the log
+ */
+
+import type { Page, Request, TestInfo } from '@playwright/test';
+import type {
+  RecordedRequest,
+  RequestMatcher,
+  RequestBodyMatcher,
+  NetworkRecorderOptions,
+  NetworkLog,
+} from '../types';
+import { isSubset, matchesUrl, sleep } from './utils';
+import { writeFileContent } from '../file/download';
+
+const DEFAULT_EXPECT_TIMEOUT = 5000;
+const POLL_INTERVAL = 50;
+const MAX_LISTED_REQUESTS = 20;
+
+/**
+ * NetworkRecorder - Request log with query and assertion APIs
+ *
+ * @example
+ * const recorder = createNetworkRecorder(page).start();
+ * await page.click('#save');
+ * await recorder.expectRequest({ method: 'POST', url: '/api/orders', body: { status: 'draft' } });
+ * await recorder.expectNoRequest({ url: /analytics/ });
+ * await recorder.stop();
+ */
+export class NetworkRecorder {
+  private records: RecordedRequest[] = [];
+  private nextId = 1;
+  private active = new Map<Request, RecordedRequest>();
+  private pending: Promise<void>[] = [];
+  private startedAt?: Date;
+  private stoppedAt?: Date;
+  private recording = false;
+
+  constructor(
+    protected readonly page: Page,
+    protected readonly options: NetworkRecorderOptions = {}
+  ) {}
+
+  // ============================================================================
+  // Recording
+  // ============================================================================
+
+  /**
+   * Start recording (no-op when already recording)
+   */
+  start(): this {
+    if (this.recording) return this;
+
+    this.recording = true;
+    this.startedAt = new Date();
+    this.stoppedAt = undefined;
+    this.page.on('request', this.onRequest);
+    this.page.on('requestfinished', this.onRequestFinished);
+    this.page.on('requestfailed', this.onRequestFailed);
+    return this;
+  }
+
+  /**
+   * Stop recording and wait for in-flight responses to be captured
+   */
+  async stop(): Promise<RecordedRequest[]> {
+    if (this.recording) {
+      this.recording = false;
+      this.stoppedAt = new Date();
+      this.page.off('request', this.onRequest);
+      this.page.off('requestfinished', this.onRequestFinished);
+      this.page.off('requestfailed', this.onRequestFailed);
+    }
+    await Promise.allSettled(this.pending);
+    return this.requests;
+  }
+
+  /** Check whether the recorder is running */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /** Snapshot of recorded requests in issue order */
+  get requests(): RecordedRequest[] {
+    return this.records.map((record) => ({ ...record }));
+  }
+
+  /** Discard recorded requests */
+  clear(): void {
+    this.records = [];
+    this.active.clear();
+  }
+
+  // ============================================================================
+  // Queries
+  // ============================================================================
+
+  /**
+   * Find recorded requests matching the matcher
+   */
+  findRequests(matcher: RequestMatcher = {}): RecordedRequest[] {
+    return this.requests.filter((record) => matchesRequest(record, matcher));
+  }
+
+  /**
+   * Count recorded requests matching the matcher
+   */
+  countRequests(matcher: RequestMatcher = {}): number {
+    return this.findRequests(matcher).length;
+  }
+
+  /**
+   * Wait until a matching request is recorded and return it
+   * @throws Error listing the recorded requests when none matches in time
+   */
+  async expectRequest(
+    matcher: RequestMatcher,
+    options: { timeout?: number; times?: number } = {}
+  ): Promise<RecordedRequest> {
+    const { timeout = DEFAULT_EXPECT_TIMEOUT, times } = options;
+    const startTime = Date.now();
+
+    for (;;) {
+      const matches = this.findRequests(matcher);
+      const done = times === undefined ? matches.length > 0 : matches.length === times;
+      if (done) {
+        return matches[0];
+      }
+      if (Date.now() - startTime >= timeout) {
+        const expected = times === undefined ? 'at least 1' : String(times);
+        throw new Error(
+          `Expected ${expected} request(s) matching ${describeMatcher(matcher)}, found ${matches.length} ` +
+          `after ${timeout}ms\n${this.formatLog()}`
+        );
+      }
+      await sleep(POLL_INTERVAL);
+    }
+  }
+
+  /**
+   * Assert that no matching request was recorded
+   * @param within - Keep watching for this many milliseconds first (default: 0)
+   */
+  async expectNoRequest(matcher: RequestMatcher, within: number = 0): Promise<void> {
+    const startTime = Date.now();
+
+    for (;;) {
+      const matches = this.findRequests(matcher);
+      if (matches.length > 0) {
+        throw new Error(
+          `Expected no requests matching ${describeMatcher(matcher)}, found ${matches.length}:\n` +
+          matches.slice(0, MAX_LISTED_REQUESTS).map(formatRequest).join('\n')
+        );
+      }
+      if (Date.now() - startTime >= within) {
+        return;
+      }
+      await sleep(Math.min(POLL_INTERVAL, within));
+    }
+  }
+
+  // ============================================================================
+  // Export
+  // ============================================================================
+
+  /**
+   * Get the log as a plain object
+   */
+  toJSON(): NetworkLog {
+    return {
+      startedAt: (this.startedAt ?? new Date()).toISOString(),
+      stoppedAt: this.stoppedAt?.toISOString(),
+      requests: this.requests,
+    };
+  }
+
+  /**
+   * Serialize the log, optionally writing it to a file
+   */
+  async exportJSON(filePath?: string): Promise<string> {
+    const json = JSON.stringify(this.toJSON(), null, 2);
+    if (filePath) {
+      await writeFileContent(filePath, json);
+    }
+    return json;
+  }
+
+  /**
+   * Attach the log to the test report
+   */
+  async attach(testInfo: TestInfo, name: string = 'network-log'): Promise<void> {
+    await testInfo.attach(name, {
+      body: await this.exportJSON(),
+      contentType: 'application/json',
+    });
+  }
+
+  // ============================================================================
+  // Event Handlers
+  // ============================================================================
+
+  private onRequest = (request: Request): void => {
+    const { filter, resourceTypes } = this.options;
+    if (resourceTypes && !resourceTypes.includes(request.resourceType())) return;
+    if (filter && !matchesUrl(request.url(), filter)) return;
+
+    const record: RecordedRequest = {
+      id: this.nextId++,
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      headers: request.headers(),
+      postData: request.postData() ?? undefined,
+      state: 'pending',
+      startTime: Date.now(),
+    };
+    this.records.push(record);
+    this.active.set(request, record);
+  };
+
+  private onRequestFinished = (request: Request): void => {
+    const record = this.active.get(request);
+    if (!record) return;
+    this.active.delete(request);
+
+    this.pending.push((async () => {
+      const response = await request.response();
+      record.state = 'finished';
+      record.status = response?.status();
+      record.statusText = response?.statusText();
+      record.responseHeaders = response?.headers();
+      record.duration = getDuration(request, record);
+    })().catch(() => {
+      // Page closed before the response could be read
+      record.state = 'finished';
+    }));
+  };
+
+  private onRequestFailed = (request: Request): void => {
+    const record = this.active.get(request);
+    if (!record) return;
+    this.active.delete(request);
+
+    record.state = 'failed';
+    record.failure = request.failure()?.errorText;
+    record.duration = getDuration(request, record);
+  };
+
+  private formatLog(): string {
+    if (this.records.length === 0) {
+      return 'No requests were recorded';
+    }
+    const listed = this.records.slice(-MAX_LISTED_REQUESTS);
+    const header = this.records.length > listed.length
+      ? `Last ${listed.length} of ${this.records.length} recorded requests:`
+      : 'Recorded requests:';
+    return [header, ...listed.map(formatRequest)].join('\n');
+  }
+}
+
+/**
+ * Create NetworkRecorder instance (call start() to begin recording)
+ */
+export function createNetworkRecorder(page: Page, options?: NetworkRecorderOptions): NetworkRecorder {
+  return new NetworkRecorder(page, options);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function matchesRequest(record: RecordedRequest, matcher: RequestMatcher): boolean {
+  if (typeof matcher === 'function') {
+    return matcher(record);
+  }
+
+  const { method, url, body, status, resourceType, state } = matcher;
+  if (method && record.method !== method.toUpperCase()) return false;
+  if (url !== undefined && !matchesUrl(record.url, url)) return false;
+  if (status !== undefined && record.status !== status) return false;
+  if (resourceType && record.resourceType !== resourceType) return false;
+  if (state && record.state !== state) return false;
+  if (body !== undefined && !matchesBody(record.postData, body)) return false;
+  return true;
+}
+
+function matchesBody(postData: string | undefined, expected: RequestBodyMatcher): boolean {
+  if (typeof expected === 'function') return expected(postData);
+  if (postData === undefined) return false;
+  if (typeof expected === 'string') return postData.includes(expected);
+  if (expected instanceof RegExp) return expected.test(postData);
+
+  try {
+    return isSubset(JSON.parse(postData), expected);
+  } catch {
+    return false;
+  }
+}
+
+
+function getDuration(request: Request, record: RecordedRequest): number {
+  const timing = request.timing();
+  return timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : Date.now() - record.startTime;
+}
+
+function describeMatcher(matcher: RequestMatcher): string {
+  if (typeof matcher === 'function') {
+    return 'predicate';
+  }
+  const parts = Object.entries(matcher).map(([key, value]) =>
+    `${key}=${
+      value instanceof RegExp ? String(value) : typeof value === 'function' ? 'predicate' : JSON.stringify(value)
+    }`
+  );
+  return parts.length > 0 ? `{ ${parts.join(', ')} }` : 'any request';
+}
+
+function formatRequest(record: RecordedRequest): string {
+  const outcome = record.state === 'failed'
+    ? `failed: ${record.failure ?? 'unknown'}`
+    : record.state === 'pending' ? 'pending' : String(record.status ?? '-');
+  return `  #${record.id} ${record.method} ${record.url} -> ${outcome}`;
+}
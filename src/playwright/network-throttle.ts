@@ -0,0 +1,185 @@
+/**
+ * Playwright Network Throttling
+ * Named network condition profiles applied through CDP or route shaping
+ */
+
+import type { Page, Route, CDPSession } from '@playwright/test';
+import type { NetworkConditions, NetworkProfileName, ThrottleOptions } from '../types';
+import { getRouteRegistry, extendRouteHandle } from './route-registry';
+import type { RouteHandle, RouteRegistry } from './route-registry';
+import { describeUrlFilter, matchesUrl, sleep } from './utils';
+
+/**
+ * Built-in profiles (values follow the Chrome DevTools presets)
+ */
+export const NETWORK_PROFILES: Record<NetworkProfileName, NetworkConditions> = {
+  'slow-3g': { downloadKbps: 400, uploadKbps: 400, latency: 2000 },
+  'fast-3g': { downloadKbps: 1440, uploadKbps: 675, latency: 563 },
+  '4g': { downloadKbps: 9000, uploadKbps: 9000, latency: 170 },
+  wifi: { downloadKbps: 30000, uploadKbps: 15000, latency: 2 },
+  offline: { downloadKbps: 0, uploadKbps: 0, latency: 0, offline: true },
+};
+
+/**
+ * Active throttling session
+ */
+export interface NetworkThrottle extends RouteHandle {
+  /** How the conditions are applied */
+  readonly mode: 'cdp' | 'route';
+  readonly conditions: NetworkConditions;
+  /** Remove the throttling (same as dispose) */
+  stop(): Promise<void>;
+}
+
+/**
+ * Apply network conditions to a page
+ *
+ * Chromium uses `Network.emulateNetworkConditions`, which throttles the whole
+ * page at the transport level. Other browsers, and any call with a `pattern`,
+ * fall back to route shaping: each matching request is delayed by the latency
+ * plus its upload time, fetched, then delayed by its download time. Route
+ * shaping throttles requests individually rather than sharing bandwidth.
+ * `times` and `scope: 'context'` also need route shaping.
+ *
+ * @example
+ * const throttle = await throttleNetwork(page, 'slow-3g');
+ * await throttleNetwork(page, { downloadKbps: 256, uploadKbps: 64, latency: 800 }, { pattern: '/api/' });
+ * await throttle.stop();
+ */
+export async function throttleNetwork(
+  page: Page,
+  profile: NetworkProfileName | NetworkConditions,
+  options: ThrottleOptions = {}
+): Promise<NetworkThrottle> {
+  const conditions = resolveConditions(profile);
+  const { pattern, mode = 'auto', times, scope } = options;
+  const routeOnly = pattern !== undefined || times !== undefined || scope === 'context';
+  const routes = getRouteRegistry(page);
+
+  if (mode === 'cdp' && routeOnly) {
+    throw new Error('CDP throttling applies to the whole page and cannot be limited by pattern, times or scope');
+  }
+
+  if (mode !== 'route' && !routeOnly) {
+    const session = await openCDPSession(page);
+    if (session) {
+      return applyCDPConditions(routes, session, conditions);
+    }
+    if (mode === 'cdp') {
+      throw new Error('CDP throttling requires Chromium');
+    }
+  }
+
+  return applyRouteConditions(routes, conditions, options);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function resolveConditions(profile: NetworkProfileName | NetworkConditions): NetworkConditions {
+  if (typeof profile !== 'string') {
+    return profile;
+  }
+  const conditions = NETWORK_PROFILES[profile];
+  if (!conditions) {
+    throw new Error(`Unknown network profile: ${profile}`);
+  }
+  return conditions;
+}
+
+async function openCDPSession(page: Page): Promise<CDPSession | null> {
+  try {
+    return await page.context().newCDPSession(page);
+  } catch {
+    // Not a Chromium browser
+    return null;
+  }
+}
+
+async function applyCDPConditions(
+  routes: RouteRegistry,
+  session: CDPSession,
+  conditions: NetworkConditions
+): Promise<NetworkThrottle> {
+  await session.send('Network.enable');
+  await session.send('Network.emulateNetworkConditions', {
+    offline: conditions.offline ?? false,
+    latency: conditions.latency,
+    downloadThroughput: toBytesPerSecond(conditions.downloadKbps),
+    uploadThroughput: toBytesPerSecond(conditions.uploadKbps),
+  });
+
+  const handle = routes.track('throttle', 'whole page (CDP)', async () => {
+    try {
+      await session.send('Network.emulateNetworkConditions', {
+        offline: false,
+        latency: 0,
+        downloadThroughput: -1,
+        uploadThroughput: -1,
+      });
+      await session.detach();
+    } catch {
+      // Page may already be closed
+    }
+  });
+
+  return extendRouteHandle<NetworkThrottle>(handle, {
+    mode: 'cdp',
+    conditions,
+    stop: handle.dispose,
+  });
+}
+
+async function applyRouteConditions(
+  routes: RouteRegistry,
+  conditions: NetworkConditions,
+  options: ThrottleOptions
+): Promise<NetworkThrottle> {
+  const { pattern, times, scope } = options;
+  const matcher = (url: URL): boolean => pattern === undefined || matchesUrl(url.href, pattern);
+
+  const handler = async (route: Route) => {
+    if (conditions.offline) {
+      await route.abort('internetdisconnected');
+      return;
+    }
+
+    const uploadBytes = route.request().postDataBuffer()?.length ?? 0;
+    await sleep(conditions.latency + transferTime(uploadBytes, conditions.uploadKbps));
+
+    let response;
+    try {
+      response = await route.fetch();
+    } catch {
+      // Let the browser surface the network error itself
+      await route.continue().catch(() => undefined);
+      return;
+    }
+
+    const body = await response.body();
+    await sleep(transferTime(body.length, conditions.downloadKbps));
+    await route.fulfill({ response, body });
+  };
+
+  const handle = await routes.add('throttle', matcher, handler, { times, scope }, {
+    description: pattern === undefined ? '**/*' : describeUrlFilter(pattern),
+  });
+
+  return extendRouteHandle<NetworkThrottle>(handle, {
+    mode: 'route',
+    conditions,
+    stop: handle.dispose,
+  });
+}
+
+function toBytesPerSecond(kbps: number): number {
+  return kbps > 0 ? (kbps * 1000) / 8 : -1;
+}
+
+/**
+ * Milliseconds needed to transfer the given bytes at the given bandwidth
+ */
+function transferTime(bytes: number, kbps: number): number {
+  return kbps > 0 ? Math.round((bytes * 8) / kbps) : 0;
+}
@@ -3,8 +3,28 @@
  * Generic page interaction utilities
  */
 
-import type { Page, Locator, BrowserContext } from '@playwright/test';
-import type { ClickOptions, FillOptions } from '../types';
+import type { Page, Locator, BrowserContext, TestInfo } from '@playwright/test';
+import type {
+  ClickOptions,
+  FillOptions,
+  FillFormOptions,
+  FormValues,
+  SafeAction,
+  SafeActionOptions,
+  ActionResult,
+  ClickabilityReport,
+  RetryPolicy,
+  AutoDismissOptions,
+  AutoDismissStats,
+} from '../types';
+import { fillForm } from './form-helpers';
+import { runWithRetry } from './retry-policy';
+import { diagnoseClickability } from './clickability';
+import { autoDismiss, formatAutoDismissStats } from './auto-dismiss';
+import type { AutoDismiss, AutoDismissAction } from './auto-dismiss';
+
+const DEFAULT_ACTION_TIMEOUT = 5000;
+const OVERLAY_TIMEOUT = 2000;
 
 /**
  * Viewport breakpoints for responsive testing
@@ -16,13 +36,62 @@ export const BREAKPOINTS = {
   wide: 1440,
 } as const;
 
+/**
+ * How safe actions (clickSafe, fillSafe, ...) retry and report failures
+ */
+export interface SafeActionPolicy {
+  /** Retry failed attempts (default: no retries) */
+  retry?: RetryPolicy;
+  /** Log failures: true for console.warn, or a custom logger (default: false) */
+  log?: boolean | ((message: string, result: ActionResult) => void);
+  /** Attach failed results to the test report; needs testInfo (default: false) */
+  attach?: boolean;
+  /** Test info to attach failures to */
+  testInfo?: TestInfo;
+}
+
+/**
+ * An overlay that can block clicks, and how to get rid of it
+ */
+export interface OverlayHandler {
+  /** Locator that is visible while the overlay is shown */
+  overlay: Locator;
+  /** Element to click to dismiss it, or a custom action */
+  dismiss: Locator | ((overlay: Locator) => Promise<void>);
+}
+
+let globalSafeActionPolicy: SafeActionPolicy = {};
+
+/**
+ * Set the default policy for every PageHelpers instance
+ * Instance policies passed to createPageHelpers() override it field by field.
+ *
+ * @example
+ * // playwright setup file
+ * setSafeActionPolicy({ log: true, attach: true, retry: { attempts: 2, delay: 200 } });
+ */
+export function setSafeActionPolicy(policy: SafeActionPolicy): void {
+  globalSafeActionPolicy = { ...policy };
+}
+
+/**
+ * Get the default safe-action policy
+ */
+export function getSafeActionPolicy(): SafeActionPolicy {
+  return { ...globalSafeActionPolicy };
+}
+
 /**
  * PageHelpers - Generic utilities for Playwright page interactions
  */
 export class PageHelpers {
+  private overlays = new Map<string, OverlayHandler>();
+  private autoDismissers = new Map<string, AutoDismiss>();
+
   constructor(
     protected readonly page: Page,
-    protected readonly context?: BrowserContext
+    protected readonly context?: BrowserContext,
+    protected readonly policy: SafeActionPolicy = {}
   ) {}
 
   // ============================================================================
@@ -79,73 +148,205 @@ export class PageHelpers {
   // ============================================================================
 
   /**
-   * Click element safely, returns success status
+   * Click element safely
+   * Never throws; the result explains a failure with the error and element state.
+   * @example
+   * const result = await helpers.clickSafe(page.locator('#submit'));
+   * if (!result.ok) console.log(result.error?.message, result.state?.coveredBy);
    */
-  async clickSafe(locator: Locator, options: ClickOptions = {}): Promise<boolean> {
-    try {
-      await locator.click({
-        timeout: options.timeout || 5000,
+  async clickSafe(locator: Locator, options: ClickOptions = {}): Promise<ActionResult> {
+    const click = () =>
+      locator.click({
+        timeout: options.timeout || DEFAULT_ACTION_TIMEOUT,
         force: options.force,
         position: options.position,
         delay: options.delay,
       });
-      return true;
-    } catch {
-      return false;
-    }
+    const dismissed: string[] = [];
+
+    const result = await this.runSafeAction('click', locator, options, async () => {
+      try {
+        await click();
+      } catch (error) {
+        if (!options.dismissOverlays) throw error;
+        const names = await this.dismissOverlays();
+        if (names.length === 0) throw error;
+        dismissed.push(...names);
+        await click();
+      }
+    });
+    return dismissed.length > 0 ? { ...result, dismissed } : result;
   }
 
   /**
-   * Fill element safely, returns success status
+   * Fill element safely
    */
-  async fillSafe(locator: Locator, value: string, options: FillOptions = {}): Promise<boolean> {
-    try {
-      await locator.fill(value, {
-        timeout: options.timeout || 5000,
+  async fillSafe(locator: Locator, value: string, options: FillOptions = {}): Promise<ActionResult> {
+    return this.runSafeAction('fill', locator, options, () =>
+      locator.fill(value, {
+        timeout: options.timeout || DEFAULT_ACTION_TIMEOUT,
         force: options.force,
-      });
-      return true;
-    } catch {
-      return false;
-    }
+      })
+    );
   }
 
   /**
-   * Select option safely, returns success status
+   * Select option safely
    */
-  async selectSafe(locator: Locator, value: string): Promise<boolean> {
-    try {
-      await locator.selectOption(value);
-      return true;
-    } catch {
-      return false;
-    }
+  async selectSafe(locator: Locator, value: string, options: SafeActionOptions = {}): Promise<ActionResult> {
+    return this.runSafeAction('select', locator, options, async () => {
+      await locator.selectOption(value, { timeout: options.timeout || DEFAULT_ACTION_TIMEOUT });
+    });
   }
 
   /**
    * Check checkbox safely
    */
-  async checkSafe(locator: Locator): Promise<boolean> {
-    try {
-      await locator.check();
-      return true;
-    } catch {
-      return false;
-    }
+  async checkSafe(locator: Locator, options: SafeActionOptions = {}): Promise<ActionResult> {
+    return this.runSafeAction('check', locator, options, () =>
+      locator.check({ timeout: options.timeout || DEFAULT_ACTION_TIMEOUT })
+    );
   }
 
   /**
    * Uncheck checkbox safely
    */
-  async uncheckSafe(locator: Locator): Promise<boolean> {
+  async uncheckSafe(locator: Locator, options: SafeActionOptions = {}): Promise<ActionResult> {
+    return this.runSafeAction('uncheck', locator, options, () =>
+      locator.uncheck({ timeout: options.timeout || DEFAULT_ACTION_TIMEOUT })
+    );
+  }
+
+  /**
+   * Fill a whole form from values or generated data ('auto'), returning the values used
+   * @example
+   * const used = await helpers.fillForm(page.locator('form#signup'), 'auto');
+   */
+  async fillForm(
+    form: Locator,
+    data: FormValues | 'auto' = 'auto',
+    options: FillFormOptions = {}
+  ): Promise<FormValues> {
+    return fillForm(form, data, options);
+  }
+
+  // ============================================================================
+  // Overlays & Clickability
+  // ============================================================================
+
+  /**
+   * Report whether a click would land on the element, and what covers it if not
+   */
+  async diagnoseClickability(locator: Locator): Promise<ClickabilityReport> {
+    return diagnoseClickability(locator);
+  }
+
+  /**
+   * Register an overlay (cookie banner, modal) that clickSafe may dismiss
+   * @example
+   * helpers.registerOverlay('cookies', page.locator('#cookie-banner'), page.getByRole('button', { name: 'Accept' }));
+   * await helpers.clickSafe(page.locator('#checkout'), { dismissOverlays: true });
+   */
+  registerOverlay(name: string, overlay: Locator, dismiss: OverlayHandler['dismiss']): void {
+    this.overlays.set(name, { overlay, dismiss });
+  }
+
+  /**
+   * Remove a registered overlay
+   */
+  unregisterOverlay(name: string): boolean {
+    return this.overlays.delete(name);
+  }
+
+  /**
+   * Dismiss every registered overlay that is currently visible
+   * @returns Names of the overlays that were dismissed
+   */
+  async dismissOverlays(): Promise<string[]> {
+    const dismissed: string[] = [];
+    for (const [name, { overlay, dismiss }] of this.overlays) {
+      if (!(await overlay.isVisible().catch(() => false))) continue;
+      try {
+        if (typeof dismiss === 'function') {
+          await dismiss(overlay);
+        } else {
+          await dismiss.click({ timeout: OVERLAY_TIMEOUT });
+        }
+        await overlay.waitFor({ state: 'hidden', timeout: OVERLAY_TIMEOUT }).catch(() => undefined);
+        dismissed.push(name);
+      } catch {
+        // Overlay went away on its own or could not be dismissed
+      }
+    }
+    return dismissed;
+  }
+
+  // ============================================================================
+  // Auto-Dismiss
+  // ============================================================================
+
+  /**
+   * Run an action whenever a popup appears, for the rest of the test
+   * Registering a name again replaces the previous handler.
+   * @example
+   * await helpers.autoDismiss('cookies', page.locator('#cookie-banner'), page.getByRole('button', { name: 'Accept' }));
+   * await helpers.autoDismiss('newsletter', page.locator('.newsletter-modal'), (modal) => modal.locator('.close').click());
+   */
+  async autoDismiss(
+    name: string,
+    popup: Locator,
+    action: AutoDismissAction,
+    options: AutoDismissOptions = {}
+  ): Promise<AutoDismiss> {
+    await this.removeAutoDismiss(name);
+    const handler = await autoDismiss(this.page, name, popup, action, options);
+    this.autoDismissers.set(name, handler);
+    return handler;
+  }
+
+  /**
+   * Unregister an auto-dismiss handler
+   */
+  async removeAutoDismiss(name: string): Promise<boolean> {
+    const handler = this.autoDismissers.get(name);
+    if (!handler) return false;
+    await handler.stop();
+    return this.autoDismissers.delete(name);
+  }
+
+  /**
+   * How often each auto-dismiss handler has fired
+   */
+  getAutoDismissStats(): AutoDismissStats[] {
+    return [...this.autoDismissers.values()].map((handler) => handler.stats());
+  }
+
+  /**
+   * Attach auto-dismiss counts to the test report
+   * Does nothing when no handler is registered or no testInfo is available.
+   */
+  async attachAutoDismissStats(testInfo?: TestInfo): Promise<void> {
+    const info = testInfo ?? this.policy.testInfo ?? getSafeActionPolicy().testInfo;
+    const stats = this.getAutoDismissStats();
+    if (!info || stats.length === 0) return;
+
     try {
-      await locator.uncheck();
-      return true;
+      await info.attach('auto-dismiss', {
+        body: formatAutoDismissStats(stats),
+        contentType: 'text/plain',
+      });
     } catch {
-      return false;
+      // Test may already have finished
     }
   }
 
+  /**
+   * Unregister every auto-dismiss handler
+   */
+  async clearAutoDismiss(): Promise<void> {
+    await Promise.all([...this.autoDismissers.keys()].map((name) => this.removeAutoDismiss(name)));
+  }
+
   // ============================================================================
   // Element Retrieval
   // ============================================================================
@@ -452,12 +653,100 @@ export class PageHelpers {
   async takeElementScreenshot(locator: Locator, path?: string): Promise<Buffer> {
     return locator.screenshot({ path });
   }
+
+  // ============================================================================
+  // Safe Action Internals
+  // ============================================================================
+
+  private async runSafeAction(
+    action: SafeAction,
+    locator: Locator,
+    options: SafeActionOptions,
+    perform: () => Promise<void>
+  ): Promise<ActionResult> {
+    const policy = { ...getSafeActionPolicy(), ...this.policy };
+    const retry = options.retry ?? policy.retry ?? { attempts: 1 };
+    const startTime = Date.now();
+    let attempts = 0;
+
+    try {
+      await runWithRetry(async (attempt) => {
+        attempts = attempt;
+        await perform();
+      }, retry);
+      return { ok: true, action, target: String(locator), duration: Date.now() - startTime, retries: attempts - 1 };
+    } catch (error) {
+      const result: ActionResult = {
+        ok: false,
+        action,
+        target: String(locator),
+        error: error instanceof Error ? error : new Error(String(error)),
+        state: (await diagnoseClickability(locator)).state,
+        duration: Date.now() - startTime,
+        retries: Math.max(attempts - 1, 0),
+      };
+      await this.reportFailure(result, policy);
+      return result;
+    }
+  }
+
+  private async reportFailure(result: ActionResult, policy: SafeActionPolicy): Promise<void> {
+    const { log = false, attach = false, testInfo } = policy;
+
+    if (log) {
+      const message = formatFailure(result);
+      if (typeof log === 'function') {
+        log(message, result);
+      } else {
+        console.warn(message);
+      }
+    }
+
+    if (attach && testInfo) {
+      try {
+        await testInfo.attach(`${result.action}-safe-failure`, {
+          body: JSON.stringify({ ...result, error: result.error?.message }, null, 2),
+          contentType: 'application/json',
+        });
+      } catch {
+        // Test may already have finished
+      }
+    }
+  }
 }
 
 /**
  * Create PageHelpers instance
  */
-export function createPageHelpers(page: Page, context?: BrowserContext): PageHelpers {
-  return new PageHelpers(page, context);
+export function createPageHelpers(
+  page: Page,
+  context?: BrowserContext,
+  policy?: SafeActionPolicy
+): PageHelpers {
+  return new PageHelpers(page, context, policy);
 }
 
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatFailure(result: ActionResult): string {
+  const { state } = result;
+  const details = !state
+    ? ''
+    : !state.attached
+      ? 'not attached'
+      : [
+        state.count > 1 ? `${state.count} matches` : '',
+        state.visible ? 'visible' : 'hidden',
+        state.enabled ? 'enabled' : 'disabled',
+        state.coveredBy ? `covered by ${state.coveredBy}` : '',
+      ].filter(Boolean).join(', ');
+
+  const error = result.error?.message.split('\n')[0] ?? 'unknown error';
+  return (
+    `${result.action}Safe failed on ${result.target} after ${result.retries + 1} attempt(s) ` +
+    `in ${result.duration}ms: ${error}${details ? ` [${details}]` : ''}`
+  );
+}
@@ -0,0 +1,147 @@
+import { test, expect } from '@playwright/test';
+import { runWithRetry, computeDelay } from './retry-policy';
+import { setSeed, clearSeed, randomInt } from '../generators/random';
+import type { RetryContext } from '../types';
+
+class TransientError extends Error {}
+
+test.describe('computeDelay', () => {
+  test('grows the delay by backoff strategy and caps it at maxDelay', () => {
+    expect([1, 2, 3].map((n) => computeDelay({ delay: 100 }, n))).toEqual([100, 100, 100]);
+    expect([1, 2, 3].map((n) => computeDelay({ delay: 100, backoff: 'linear' }, n))).toEqual([100, 200, 300]);
+    expect([1, 2, 3].map((n) => computeDelay({ delay: 100, backoff: 'exponential' }, n))).toEqual([100, 200, 400]);
+    expect(computeDelay({ delay: 100, backoff: 'exponential', factor: 3, maxDelay: 500 }, 3)).toBe(500);
+  });
+
+  test('keeps jittered delays within the randomized fraction', () => {
+    for (let i = 0; i < 50; i++) {
+      const full = computeDelay({ delay: 1000, jitter: true }, 1);
+      const partial = computeDelay({ delay: 1000, jitter: 0.2 }, 1);
+      expect(full).toBeGreaterThanOrEqual(0);
+      expect(full).toBeLessThanOrEqual(1000);
+      expect(partial).toBeGreaterThanOrEqual(800);
+      expect(partial).toBeLessThanOrEqual(1000);
+    }
+  });
+
+  test('does not consume the seeded generator', () => {
+    setSeed(42);
+    const expected = [randomInt(0, 1e6), randomInt(0, 1e6)];
+
+    setSeed(42);
+    const first = randomInt(0, 1e6);
+    computeDelay({ delay: 1000, jitter: true }, 1);
+    const second = randomInt(0, 1e6);
+    clearSeed();
+
+    expect([first, second]).toEqual(expected);
+  });
+});
+
+test.describe('runWithRetry', () => {
+  test('returns the first successful result', async () => {
+    const attempts: number[] = [];
+    const result = await runWithRetry(async (attempt) => {
+      attempts.push(attempt);
+      if (attempt < 3) throw new Error('flaky');
+      return 'ok';
+    }, { delay: 0 });
+
+    expect(result).toBe('ok');
+    expect(attempts).toEqual([1, 2, 3]);
+  });
+
+  test('rethrows the last error once attempts run out', async () => {
+    let calls = 0;
+    await expect(runWithRetry(() => {
+      calls++;
+      throw new Error(`failure ${calls}`);
+    }, { attempts: 2, delay: 0 })).rejects.toThrow('failure 2');
+    expect(calls).toBe(2);
+  });
+
+  test('only retries errors matching retryOn', async () => {
+    const run = (error: Error) => {
+      let calls = 0;
+      const promise = runWithRetry(() => {
+        calls++;
+        throw error;
+      }, { attempts: 3, delay: 0, retryOn: [TransientError, /timeout/i] });
+      return promise.catch(() => calls);
+    };
+
+    expect(await run(new TransientError('x'))).toBe(3);
+    expect(await run(new Error('Request Timeout'))).toBe(3);
+    expect(await run(new TypeError('bad input'))).toBe(1);
+  });
+
+  test('retries results by status and retryIf, returning the last result', async () => {
+    const statuses = [503, 200];
+    const response = await runWithRetry(() => {
+      const status = statuses.shift() ?? 0;
+      return { status: () => status };
+    }, {
+      delay: 0,
+      retryOn: 503,
+    });
+    expect(response.status()).toBe(200);
+
+    let calls = 0;
+    const result = await runWithRetry(() => ++calls, { attempts: 3, delay: 0, retryIf: (n) => n < 10 });
+    expect(result).toBe(3);
+  });
+
+  test('reports each retry to onAttempt and onRetry', async () => {
+    const attempts: number[] = [];
+    const retries: Array<Pick<RetryContext<string>, 'attempt' | 'delay'>> = [];
+
+    await runWithRetry(async (attempt) => {
+      if (attempt === 1) throw new Error('first');
+      return 'second';
+    }, {
+      delay: 5,
+      onAttempt: (attempt) => {
+        attempts.push(attempt);
+      },
+      onRetry: ({ attempt, delay }) => {
+        retries.push({ attempt, delay });
+      },
+    });
+
+    expect(attempts).toEqual([1, 2]);
+    expect(retries).toEqual([{ attempt: 1, delay: 5 }]);
+  });
+
+  test('clips the last delay to maxDuration and stops at the deadline', async () => {
+    const delays: number[] = [];
+    const start = Date.now();
+
+    await expect(runWithRetry(() => {
+      throw new Error('down');
+    }, {
+      attempts: 10,
+      delay: 1000,
+      maxDuration: 100,
+      onRetry: ({ delay }) => {
+        delays.push(delay);
+      },
+    })).rejects.toThrow('down');
+
+    expect(delays).toHaveLength(1);
+    expect(delays[0]).toBeLessThanOrEqual(100);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  test('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const promise = runWithRetry(() => {
+      calls++;
+      throw new Error('down');
+    }, { delay: 10000, signal: controller.signal });
+
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+    await expect(promise).rejects.toThrow('cancelled');
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Retry Policy Engine
+ * Backoff, retry conditions and abort handling shared by retry, poll,
+ * waitWithBackoff and ApiClient
+ */
+
+import type { RetryPolicy, RetryCondition, RetryContext } from '../types';
+
+/**
+ * Run fn until it succeeds or the policy gives up
+ *
+ * Errors matching `retryOn` (any error by default) are retried. Results are
+ * retried when `retryIf` returns true or their HTTP status matches a numeric
+ * `retryOn` condition; once attempts run out the last result is returned.
+ * The last error is rethrown when the policy gives up.
+ */
+export async function runWithRetry<T>(
+  fn: (attempt: number) => Promise<T> | T,
+  policy: RetryPolicy<T> = {}
+): Promise<T> {
+  const { attempts = 3, maxDuration, signal, onAttempt, onRetry } = policy;
+  const conditions = toConditions(policy.retryOn);
+  const startTime = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    await onAttempt?.(attempt);
+
+    let outcome: { error: unknown } | { result: T };
+    try {
+      const result = await fn(attempt);
+      if (!shouldRetryResult(result, policy, conditions)) {
+        return result;
+      }
+      outcome = { result };
+    } catch (error) {
+      if (!shouldRetryError(error, attempt, conditions)) {
+        throw error;
+      }
+      outcome = { error };
+    }
+
+    const elapsed = Date.now() - startTime;
+    if (attempt >= attempts || (maxDuration !== undefined && elapsed >= maxDuration)) {
+      if ('error' in outcome) throw outcome.error;
+      return outcome.result;
+    }
+
+    // Clip the delay so a final attempt runs at the deadline
+    let delay = computeDelay(policy, attempt);
+    if (maxDuration !== undefined) {
+      delay = Math.min(delay, maxDuration - elapsed);
+    }
+
+    await onRetry?.({ attempt, delay, elapsed, ...outcome } as RetryContext<T>);
+    await sleep(delay, signal);
+  }
+}
+
+/**
+ * Delay before the retry following the given 1-based attempt
+ */
+export function computeDelay(
+  policy: Pick<RetryPolicy, 'delay' | 'backoff' | 'factor' | 'maxDelay' | 'jitter'>,
+  attempt: number
+): number {
+  const { delay = 1000, backoff = 'fixed', factor = 2, maxDelay = Infinity, jitter = false } = policy;
+
+  let result: number;
+  switch (backoff) {
+    case 'linear':
+      result = delay * attempt;
+      break;
+    case 'exponential':
+      result = delay * Math.pow(factor, attempt - 1);
+      break;
+    default:
+      result = delay;
+  }
+  result = Math.min(result, maxDelay);
+
+  // Math.random rather than the generators so retries never shift a seeded data stream
+  const spread = jitter === true ? 1 : jitter || 0;
+  if (spread > 0) {
+    result -= result * Math.min(spread, 1) * Math.random();
+  }
+
+  return Math.round(result);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function toConditions(retryOn: RetryPolicy['retryOn']): RetryCondition[] {
+  if (retryOn === undefined) return [];
+  return Array.isArray(retryOn) ? retryOn : [retryOn];
+}
+
+function matchesRetryCondition(error: unknown, condition: RetryCondition, attempt: number): boolean {
+  if (condition instanceof RegExp) {
+    return condition.test(error instanceof Error ? error.message : String(error));
+  }
+  if (typeof condition === 'number') {
+    return getStatus(error) === condition;
+  }
+  if (isErrorClass(condition)) {
+    return error instanceof condition;
+  }
+  return (condition as (error: unknown, attempt: number) => boolean)(error, attempt);
+}
+
+function shouldRetryError(error: unknown, attempt: number, conditions: RetryCondition[]): boolean {
+  return conditions.length === 0 || conditions.some((c) => matchesRetryCondition(error, c, attempt));
+}
+
+function shouldRetryResult<T>(result: T, policy: RetryPolicy<T>, conditions: RetryCondition[]): boolean {
+  if (policy.retryIf?.(result)) {
+    return true;
+  }
+  const status = getStatus(result);
+  return status !== undefined && conditions.some((c) => c === status);
+}
+
+/**
+ * Read an HTTP status from an error or response-like value
+ */
+function getStatus(value: unknown): number | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const status = (value as { status?: unknown }).status;
+  if (typeof status === 'number') return status;
+  if (typeof status === 'function') {
+    const result = (status as () => unknown).call(value);
+    return typeof result === 'number' ? result : undefined;
+  }
+  return undefined;
+}
+
+function isErrorClass(condition: RetryCondition): condition is abstract new (...args: never[]) => Error {
+  return typeof condition === 'function' &&
+    (condition === Error || condition.prototype instanceof Error);
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? new Error('Retry aborted');
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!signal) {
+      setTimeout(resolve, ms);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new Error('Retry aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * Playwright Route Registry
+ * Track route handlers so they can be listed and removed individually
+ */
+
+import type { Page, BrowserContext, Route } from '@playwright/test';
+import type { RouteOptions, RouteHandleInfo } from '../types';
+
+type RoutePattern = string | RegExp | ((url: URL) => boolean);
+type RouteHandler = (route: Route) => Promise<unknown> | unknown;
+
+// One registry per page, shared by NetworkHelpers and the standalone route helpers
+const registries = new WeakMap<Page, RouteRegistry>();
+
+// Node 18 has no Symbol.asyncDispose; use the registered symbol that `await using` polyfills look up
+if (typeof Symbol.asyncDispose !== 'symbol') {
+  Object.defineProperty(Symbol, 'asyncDispose', { value: Symbol.for('Symbol.asyncDispose') });
+}
+
+/**
+ * Handle to a registered route handler
+ *
+ * @example
+ * await using block = await network.blockRequests(/analytics/);
+ * // or
+ * const mock = await network.mockResponse('/api/user', { body: { id: 1 } }, { times: 1 });
+ * await mock.dispose();
+ */
+export interface RouteHandle extends RouteHandleInfo {
+  /** False once disposed or once `times` requests have been handled */
+  readonly active: boolean;
+  /** Remove the handler (no-op when already removed) */
+  dispose(): Promise<void>;
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+/**
+ * RouteRegistry - Registers route handlers on a page or its context and tracks them
+ *
+ * Only handlers added through the registry are removed by disposeAll(), so
+ * routes set up elsewhere (e.g. by fixtures) are left alone.
+ */
+export class RouteRegistry {
+  private handles = new Map<number, RouteHandle>();
+  private nextId = 1;
+
+  constructor(
+    protected readonly page: Page,
+    protected readonly context?: BrowserContext
+  ) {}
+
+  /**
+   * Register a handler and return its handle
+   * @param kind - Label shown when listing handlers
+   * @param extras - Pattern description for listings (e.g. for predicates) and
+   * cleanup run before the handler is removed
+   */
+  async add(
+    kind: string,
+    pattern: RoutePattern,
+    handler: RouteHandler,
+    options: RouteOptions = {},
+    extras: { description?: string; onDispose?: () => Promise<void> } = {}
+  ): Promise<RouteHandle> {
+    const { times, scope = 'page' } = options;
+    const target = scope === 'context' ? this.context ?? this.page.context() : this.page;
+    const id = this.nextId++;
+    let calls = 0;
+    let disposed = false;
+
+    const wrapped = async (route: Route) => {
+      calls++;
+      if (times !== undefined && calls >= times) {
+        // Playwright removes the route itself once `times` is reached
+        this.handles.delete(id);
+      }
+      await handler(route);
+    };
+
+    await target.route(pattern, wrapped, { times });
+
+    const handle: RouteHandle = {
+      id,
+      kind,
+      pattern: extras.description ?? describePattern(pattern),
+      scope,
+      times,
+      get calls() {
+        return calls;
+      },
+      get active() {
+        return !disposed && (times === undefined || calls < times);
+      },
+      dispose: async () => {
+        if (disposed) return;
+        disposed = true;
+        this.handles.delete(id);
+        await extras.onDispose?.();
+        await target.unroute(pattern, wrapped);
+      },
+      [Symbol.asyncDispose]() {
+        return this.dispose();
+      },
+    };
+
+    this.handles.set(id, handle);
+    return handle;
+  }
+
+  /**
+   * Track a network override that is not a route handler (e.g. CDP throttling)
+   * so it is listed and removed alongside the routes
+   */
+  track(kind: string, description: string, dispose: () => Promise<void>): RouteHandle {
+    const id = this.nextId++;
+    let disposed = false;
+
+    const handle: RouteHandle = {
+      id,
+      kind,
+      pattern: description,
+      scope: 'page',
+      calls: 0,
+      get active() {
+        return !disposed;
+      },
+      dispose: async () => {
+        if (disposed) return;
+        disposed = true;
+        this.handles.delete(id);
+        await dispose();
+      },
+      [Symbol.asyncDispose]() {
+        return this.dispose();
+      },
+    };
+
+    this.handles.set(id, handle);
+    return handle;
+  }
+
+  /**
+   * Snapshot of the handlers that are still registered
+   */
+  get active(): RouteHandleInfo[] {
+    return [...this.handles.values()].map(({ id, kind, pattern, scope, calls, times }) => ({
+      id, kind, pattern, scope, calls, times,
+    }));
+  }
+
+  /**
+   * List active handlers, one per line (useful in failure messages)
+   */
+  describe(): string {
+    const active = this.active;
+    if (active.length === 0) {
+      return 'No active route handlers';
+    }
+    return active
+      .map((info) =>
+        `#${info.id} ${info.kind} ${info.pattern} [${info.scope}] ` +
+        `calls: ${info.calls}${info.times !== undefined ? `/${info.times}` : ''}`
+      )
+      .join('\n');
+  }
+
+  /**
+   * Remove every handler registered through this registry
+   */
+  async disposeAll(): Promise<void> {
+    const handles = [...this.handles.values()];
+    await Promise.all(handles.map((handle) => handle.dispose()));
+  }
+}
+
+/**
+ * Create RouteRegistry instance
+ */
+export function createRouteRegistry(page: Page, context?: BrowserContext): RouteRegistry {
+  return new RouteRegistry(page, context);
+}
+
+/**
+ * Get the page's shared registry, creating it on first use
+ * NetworkHelpers and the standalone route helpers (mountResource, replayHar,
+ * injectFaults, ...) all register here, so clearRoutes() removes every one of them.
+ */
+export function getRouteRegistry(page: Page, context?: BrowserContext): RouteRegistry {
+  let registry = registries.get(page);
+  if (!registry) {
+    registry = new RouteRegistry(page, context);
+    registries.set(page, registry);
+  }
+  return registry;
+}
+
+/**
+ * Add feature-specific members to a route handle
+ * The handle's own members (calls, active, dispose, ...) stay live.
+ */
+export function extendRouteHandle<H extends RouteHandle>(
+  handle: RouteHandle,
+  members: Omit<H, keyof RouteHandle>
+): H {
+  return Object.defineProperties({}, {
+    ...Object.getOwnPropertyDescriptors(handle),
+    ...Object.getOwnPropertyDescriptors(members),
+  }) as H;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function describePattern(pattern: RoutePattern): string {
+  if (typeof pattern === 'function') {
+    return 'predicate';
+  }
+  return String(pattern);
+}
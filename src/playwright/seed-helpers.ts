@@ -0,0 +1,45 @@
+/**
+ * Playwright Seed Helpers
+ * Utilities for reproducible random test data across runs
+ */
+
+import type { TestType } from '@playwright/test';
+import { setSeed, clearSeed, generateSeed } from '../generators/random';
+
+/**
+ * Seed every generator before each test and print the seed when a test fails
+ *
+ * The base seed comes from `options.seed`, then PW_UTILS_SEED, then a fresh
+ * random seed per worker. Each test is seeded with the base seed combined with
+ * its title path, so re-running a single failing test with
+ * `PW_UTILS_SEED=<seed>` reproduces the same data regardless of test order.
+ *
+ * Only random draws are seeded: values derived from the current date (card
+ * expiry years, email timestamps, futureDate/pastDate, randomBirthDate without
+ * a reference date) still change from day to day.
+ */
+export function useSeededRandom<T extends {}, W extends {}>(
+  test: TestType<T, W>,
+  options: {
+    seed?: number | string;
+    log?: (message: string) => void;
+  } = {}
+): number | string {
+  const { log = console.log } = options;
+  const baseSeed = options.seed ?? process.env.PW_UTILS_SEED ?? generateSeed();
+
+  test.beforeEach(async ({}, testInfo) => {
+    setSeed(`${baseSeed}:${testInfo.titlePath.join(' > ')}`);
+    testInfo.annotations.push({ type: 'random-seed', description: String(baseSeed) });
+  });
+
+  test.afterEach(async ({}, testInfo) => {
+    if (testInfo.status !== testInfo.expectedStatus) {
+      log(`[playwright-utils] "${testInfo.title}" failed with random seed ${baseSeed}. ` +
+        `Replay with PW_UTILS_SEED=${baseSeed}`);
+    }
+    clearSeed();
+  });
+
+  return baseSeed;
+}
@@ -0,0 +1,323 @@
+/**
+ * Playwright Session State
+ * Snapshot cookies, web storage and IndexedDB so a logged-in session can be reused
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import type { Page } from '@playwright/test';
+import type {
+  SessionState,
+  SessionStateOptions,
+  OriginStorageSnapshot,
+  IndexedDBSnapshot,
+} from '../types';
+import { readFileContent, writeFileContent } from '../file/download';
+
+const SESSION_STATE_VERSION = '1.0';
+const CIPHER = 'aes-256-gcm';
+// sessionStorage key marking a tab as already seeded, so later reloads keep the app's own changes
+const SEEDED_MARKER = '__pwUtilsSessionSeeded';
+
+interface EncryptedSessionFile {
+  encrypted: typeof CIPHER;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Capture cookies plus localStorage, sessionStorage and IndexedDB for every
+ * open page's origin (unlike Playwright's storageState, sessionStorage is included)
+ */
+export async function captureSessionState(
+  page: Page,
+  options: SessionStateOptions = {}
+): Promise<SessionState> {
+  const { indexedDB = true } = options;
+  const context = page.context();
+  const origins: OriginStorageSnapshot[] = [];
+
+  // The given page first so its sessionStorage wins over other tabs on the same origin
+  const pages = [page, ...context.pages().filter((p) => p !== page)];
+  for (const p of pages) {
+    const origin = getOrigin(p.url());
+    if (!origin || origins.some((snapshot) => snapshot.origin === origin)) continue;
+    origins.push(await snapshotOrigin(p, indexedDB));
+  }
+
+  return {
+    version: SESSION_STATE_VERSION,
+    savedAt: new Date().toISOString(),
+    cookies: await context.cookies(),
+    origins,
+  };
+}
+
+/**
+ * Apply a captured session state to the page's browser context
+ *
+ * Cookies, localStorage and IndexedDB are written straight away (through a
+ * blank page on each origin other than the current one). sessionStorage
+ * belongs to a tab, so it is seeded into this page on the first navigation to
+ * its origin, for keys that are not already set. Keys the app removes later
+ * stay removed across reloads.
+ */
+export async function applySessionState(page: Page, state: SessionState): Promise<void> {
+  const context = page.context();
+  if (state.cookies.length > 0) {
+    await context.addCookies(state.cookies);
+  }
+
+  const sessionStorageByOrigin = Object.fromEntries(
+    state.origins
+      .filter((snapshot) => Object.keys(snapshot.sessionStorage).length > 0)
+      .map((snapshot) => [snapshot.origin, snapshot.sessionStorage])
+  );
+  if (Object.keys(sessionStorageByOrigin).length > 0) {
+    await page.addInitScript(({ byOrigin, marker }) => {
+      const entries = byOrigin[window.location.origin];
+      if (!entries || window.sessionStorage.getItem(marker) !== null) return;
+      for (const [key, value] of Object.entries(entries)) {
+        if (window.sessionStorage.getItem(key) === null) {
+          window.sessionStorage.setItem(key, value);
+        }
+      }
+      window.sessionStorage.setItem(marker, '1');
+    }, { byOrigin: sessionStorageByOrigin, marker: SEEDED_MARKER });
+  }
+
+  for (const snapshot of state.origins) {
+    if (getOrigin(page.url()) === snapshot.origin) {
+      await restoreOrigin(page, snapshot, true);
+      continue;
+    }
+
+    const blank = await context.newPage();
+    try {
+      await blank.route('**/*', (route) =>
+        route.fulfill({ contentType: 'text/html', body: '<!doctype html><title></title>' })
+      );
+      await blank.goto(`${snapshot.origin}/`);
+      await restoreOrigin(blank, snapshot, false);
+    } finally {
+      await blank.close();
+    }
+  }
+}
+
+/**
+ * Capture the session state and write it to a file
+ * @example
+ * // global-setup.ts, after logging in
+ * await saveSessionState(page, '.auth/admin.json', { encryptionKey: process.env.SESSION_KEY });
+ */
+export async function saveSessionState(
+  page: Page,
+  filePath: string,
+  options: SessionStateOptions = {}
+): Promise<SessionState> {
+  const state = await captureSessionState(page, options);
+  const json = JSON.stringify(state, null, 2);
+  const content = options.encryptionKey
+    ? JSON.stringify(encrypt(json, options.encryptionKey), null, 2)
+    : json;
+
+  await writeFileContent(filePath, content);
+  return state;
+}
+
+/**
+ * Read a session state file and apply it to the page's browser context
+ * @throws Error when the file is encrypted and no (or the wrong) key is given
+ * @example
+ * await restoreSessionState(page, '.auth/admin.json', { encryptionKey: process.env.SESSION_KEY });
+ * await page.goto('/dashboard');
+ */
+export async function restoreSessionState(
+  page: Page,
+  filePath: string,
+  options: SessionStateOptions = {}
+): Promise<SessionState> {
+  const parsed = JSON.parse(await readFileContent(filePath)) as SessionState | EncryptedSessionFile;
+
+  let state: SessionState;
+  if ('encrypted' in parsed) {
+    if (!options.encryptionKey) {
+      throw new Error(`Session state ${filePath} is encrypted; pass encryptionKey to restore it`);
+    }
+    state = JSON.parse(decrypt(parsed, options.encryptionKey, filePath)) as SessionState;
+  } else {
+    state = parsed;
+  }
+
+  if (options.indexedDB === false) {
+    state = { ...state, origins: state.origins.map((snapshot) => ({ ...snapshot, indexedDB: [] })) };
+  }
+
+  await applySessionState(page, state);
+  return state;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getOrigin(url: string): string | null {
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+async function snapshotOrigin(page: Page, includeIndexedDB: boolean): Promise<OriginStorageSnapshot> {
+  return page.evaluate(async ({ withIndexedDB, marker }) => {
+    const readStorage = (storage: Storage) => {
+      const entries: Record<string, string> = {};
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null && key !== marker) entries[key] = storage.getItem(key) ?? '';
+      }
+      return entries;
+    };
+    const settle = <T>(request: IDBRequest<T>) =>
+      new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+    const databases: IndexedDBSnapshot[] = [];
+    if (withIndexedDB && typeof indexedDB !== 'undefined' && typeof indexedDB.databases === 'function') {
+      for (const info of await indexedDB.databases()) {
+        if (!info.name) continue;
+        const db = await settle(indexedDB.open(info.name));
+        const stores = [];
+        for (const storeName of Array.from(db.objectStoreNames)) {
+          const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+          const [keys, values] = await Promise.all([settle(store.getAllKeys()), settle(store.getAll())]);
+          stores.push({
+            name: storeName,
+            keyPath: store.keyPath,
+            autoIncrement: store.autoIncrement,
+            indexes: Array.from(store.indexNames).map((indexName) => {
+              const index = store.index(indexName);
+              return { name: indexName, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+            }),
+            entries: keys.map((key, i) => ({ key, value: values[i] })),
+          });
+        }
+        databases.push({ name: db.name, version: db.version, stores });
+        db.close();
+      }
+    }
+
+    return {
+      origin: window.location.origin,
+      localStorage: readStorage(window.localStorage),
+      sessionStorage: readStorage(window.sessionStorage),
+      indexedDB: databases,
+    };
+  }, { withIndexedDB: includeIndexedDB, marker: SEEDED_MARKER });
+}
+
+async function restoreOrigin(
+  page: Page,
+  snapshot: OriginStorageSnapshot,
+  withSessionStorage: boolean
+): Promise<void> {
+  await page.evaluate(async ({ snapshot, withSessionStorage, marker }) => {
+    for (const [key, value] of Object.entries(snapshot.localStorage)) {
+      window.localStorage.setItem(key, value);
+    }
+    if (withSessionStorage) {
+      for (const [key, value] of Object.entries(snapshot.sessionStorage)) {
+        window.sessionStorage.setItem(key, value);
+      }
+      window.sessionStorage.setItem(marker, '1');
+    }
+
+    for (const database of snapshot.indexedDB) {
+      const existing = typeof indexedDB.databases === 'function'
+        ? (await indexedDB.databases()).find((info) => info.name === database.name)
+        : undefined;
+
+      const db = await new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(database.name, Math.max(database.version, existing?.version ?? 0));
+        // Stores can only be created during an upgrade, i.e. when the database is new or older
+        request.onupgradeneeded = () => {
+          for (const store of database.stores) {
+            if (request.result.objectStoreNames.contains(store.name)) continue;
+            const created = request.result.createObjectStore(store.name, {
+              keyPath: store.keyPath ?? undefined,
+              autoIncrement: store.autoIncrement,
+            });
+            for (const index of store.indexes) {
+              created.createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+            }
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      const stores = database.stores.filter((store) => db.objectStoreNames.contains(store.name));
+      if (stores.length > 0) {
+        const transaction = db.transaction(stores.map((store) => store.name), 'readwrite');
+        for (const store of stores) {
+          const objectStore = transaction.objectStore(store.name);
+          for (const { key, value } of store.entries) {
+            if (store.keyPath === null) {
+              objectStore.put(value, key as IDBValidKey);
+            } else {
+              objectStore.put(value);
+            }
+          }
+        }
+        await new Promise<void>((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        });
+      }
+      db.close();
+    }
+  }, { snapshot, withSessionStorage, marker: SEEDED_MARKER });
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+function encrypt(plaintext: string, passphrase: string): EncryptedSessionFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    encrypted: CIPHER,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(file: EncryptedSessionFile, passphrase: string, filePath: string): string {
+  try {
+    const decipher = createDecipheriv(
+      CIPHER,
+      deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(file.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new Error(`Could not decrypt session state ${filePath}: wrong encryptionKey or corrupted file`);
+  }
+}
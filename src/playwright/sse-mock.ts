@@ -0,0 +1,160 @@
+/**
+ * Playwright Server-Sent Events Mock
+ * Serve a timed sequence of events as a text/event-stream
+ */
+
+import type { Page, Route } from '@playwright/test';
+import type { UrlFilter, SSEEvent, SSEMockOptions } from '../types';
+import { getRouteRegistry, extendRouteHandle } from './route-registry';
+import type { RouteHandle } from './route-registry';
+import { describeUrlFilter, matchesUrl, sleep } from './utils';
+
+const DEFAULT_RETRY = 1;
+// Prefix of the ids that mark batch boundaries when the last event has no id of its own
+const CURSOR_PREFIX = 'pw-sse-';
+
+/**
+ * Handle to a mocked event stream
+ */
+export interface SSEMock extends RouteHandle {
+  /** Stream requests served so far, including reconnects and final 204s */
+  readonly requests: number;
+  /** Streams opened without a Last-Event-ID (new EventSource instances) */
+  readonly connections: number;
+  /** Events delivered so far */
+  readonly delivered: number;
+  /** Remove the mock (same as dispose) */
+  stop(): Promise<void>;
+}
+
+/**
+ * Mock a Server-Sent Events endpoint
+ *
+ * A fulfilled route delivers its body in one piece, so the events are split
+ * into batches at every event with a `delay`. Each stream request waits for
+ * the batch's delay and then responds with that batch; the client reconnects
+ * (EventSource does this by itself, using the advertised `retry`) to get the
+ * next one. Once all events are delivered the endpoint answers 204, which
+ * tells EventSource to stop reconnecting.
+ *
+ * Each connection has its own position: reconnects resume after the
+ * `Last-Event-ID` the browser sends, and a new EventSource (another tab, or
+ * a reload) starts from the first event. Batches whose last event has no `id`
+ * end with an id-only marker so the position survives the reconnect.
+ *
+ * @example
+ * await mockSSE(page, '/api/stream', [
+ *   { event: 'status', data: { state: 'queued' } },
+ *   { event: 'status', data: { state: 'running' }, delay: 1000 },
+ *   { event: 'status', data: { state: 'done' }, delay: 2000 },
+ * ]);
+ */
+export async function mockSSE(
+  page: Page,
+  pattern: UrlFilter,
+  events: SSEEvent[],
+  options: SSEMockOptions = {}
+): Promise<SSEMock> {
+  const { headers = {}, retry = DEFAULT_RETRY, times, scope } = options;
+  const batches = splitIntoBatches(events);
+  let requests = 0;
+  let connections = 0;
+  let delivered = 0;
+
+  const matcher = (url: URL): boolean => matchesUrl(url.href, pattern);
+
+  const handler = async (route: Route) => {
+    requests++;
+    const lastEventId = await route.request().headerValue('last-event-id');
+    if (lastEventId === null) {
+      connections++;
+    }
+
+    const index = lastEventId === null ? 0 : resumeIndex(batches, lastEventId);
+    const batch = batches[index];
+    if (!batch) {
+      await route.fulfill({ status: 204, headers });
+      return;
+    }
+
+    if (batch[0].delay) {
+      await sleep(batch[0].delay);
+    }
+    await route.fulfill({
+      status: 200,
+      headers: { 'cache-control': 'no-cache', ...headers },
+      contentType: 'text/event-stream',
+      body: `retry: ${retry}\n\n${batch.map(formatSSEEvent).join('')}${formatCursor(batch, index)}`,
+    });
+    delivered += batch.length;
+  };
+
+  const routeHandle = await getRouteRegistry(page).add('mockSSE', matcher, handler, { times, scope }, {
+    description: describeUrlFilter(pattern),
+  });
+
+  return extendRouteHandle<SSEMock>(routeHandle, {
+    get requests() {
+      return requests;
+    },
+    get connections() {
+      return connections;
+    },
+    get delivered() {
+      return delivered;
+    },
+    stop: routeHandle.dispose,
+  });
+}
+
+/**
+ * Format an event in the text/event-stream wire format
+ */
+export function formatSSEEvent(event: SSEEvent): string {
+  const lines: string[] = [];
+  if (event.id !== undefined) lines.push(`id: ${event.id}`);
+  if (event.event) lines.push(`event: ${event.event}`);
+
+  const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+  for (const line of data.split('\n')) {
+    lines.push(`data: ${line}`);
+  }
+  return `${lines.join('\n')}\n\n`;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Index of the batch following the one that delivered lastEventId
+ * Unknown ids restart the stream.
+ */
+function resumeIndex(batches: SSEEvent[][], lastEventId: string): number {
+  if (lastEventId.startsWith(CURSOR_PREFIX)) {
+    const index = Number(lastEventId.slice(CURSOR_PREFIX.length));
+    if (Number.isInteger(index)) return index + 1;
+  }
+  const index = batches.findIndex((batch) => batch.some((event) => event.id === lastEventId));
+  return index === -1 ? 0 : index + 1;
+}
+
+/**
+ * An id-only block updates EventSource's last event id without firing an event
+ */
+function formatCursor(batch: SSEEvent[], index: number): string {
+  return batch[batch.length - 1].id === undefined ? `id: ${CURSOR_PREFIX}${index}\n\n` : '';
+}
+
+function splitIntoBatches(events: SSEEvent[]): SSEEvent[][] {
+  const batches: SSEEvent[][] = [];
+  for (const event of events) {
+    const current = batches[batches.length - 1];
+    if (!current || event.delay) {
+      batches.push([event]);
+    } else {
+      current.push(event);
+    }
+  }
+  return batches;
+}
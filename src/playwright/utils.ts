@@ -0,0 +1,44 @@
+/**
+ * Playwright Internal Utilities
+ * Small helpers shared by the helper modules (not exported from the package)
+ */
+
+import type { UrlFilter } from '../types';
+
+/**
+ * Check a URL against a substring, regex or predicate filter
+ */
+export function matchesUrl(url: string, filter: UrlFilter): boolean {
+  if (typeof filter === 'string') {
+    return url.includes(filter);
+  }
+  if (filter instanceof RegExp) {
+    return filter.test(url);
+  }
+  return filter(url);
+}
+
+/**
+ * Describe a URL filter for listings and error messages
+ */
+export function describeUrlFilter(filter: UrlFilter): string {
+  return typeof filter === 'function' ? 'predicate' : String(filter);
+}
+
+/**
+ * Check that every key in expected is present in actual with an equal value
+ * Nested objects are compared as subsets; arrays must match exactly.
+ */
+export function isSubset(actual: unknown, expected: unknown): boolean {
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    return Object.entries(expected).every(([key, value]) =>
+      isSubset((actual as Record<string, unknown>)[key], value)
+    );
+  }
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
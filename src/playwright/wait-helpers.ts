@@ -3,17 +3,67 @@
  * Utilities for waiting on various conditions
  */
 
-import type { Page, Locator, Response, Request } from '@playwright/test';
-import type { WaitOptions } from '../types';
+import type { Page, Locator, Response, Request, TestInfo } from '@playwright/test';
+import type { WaitOptions, WaitObservation, RetryPolicy } from '../types';
+import { runWithRetry } from './retry-policy';
 
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_INTERVAL = 100;
+const MAX_HISTORY = 50;
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Diagnostics captured when a wait times out
+ */
+export interface WaitDiagnosticsOptions {
+  /** Test info to attach diagnostics to */
+  testInfo?: TestInfo;
+  /** Attach a page screenshot (default: false) */
+  screenshot?: boolean;
+  /** Attach the page HTML (default: false) */
+  domSnapshot?: boolean;
+}
+
+/**
+ * Error thrown when a wait or poll times out
+ * Carries the observed value history so failures explain what was seen.
+ */
+export class WaitTimeoutError<T = unknown> extends Error {
+  /** Names of diagnostics attached to the test info */
+  readonly attachments: string[] = [];
+
+  constructor(
+    message: string,
+    public readonly timeout: number,
+    public readonly elapsed: number,
+    public readonly attempts: number,
+    public readonly history: WaitObservation<T>[],
+    public readonly expected?: unknown,
+    public readonly description?: string
+  ) {
+    super(formatTimeoutMessage(message, timeout, elapsed, attempts, history, expected, description));
+    this.name = 'WaitTimeoutError';
+  }
+
+  /** Last observed value */
+  get lastValue(): T | undefined {
+    return [...this.history].reverse().find((o) => o.error === undefined)?.value;
+  }
+
+  /** Last error thrown by the observed function */
+  get lastError(): string | undefined {
+    return this.history[this.history.length - 1]?.error;
+  }
+}
 
 /**
  * WaitHelpers - Utilities for waiting on conditions
  */
 export class WaitHelpers {
-  constructor(protected readonly page: Page) {}
+  constructor(
+    protected readonly page: Page,
+    protected readonly diagnostics: WaitDiagnosticsOptions = {}
+  ) {}
 
   // ============================================================================
   // Element State Waits
@@ -51,28 +101,24 @@ export class WaitHelpers {
    * Wait for element to be enabled
    */
   async waitForEnabled(locator: Locator, timeout: number = DEFAULT_TIMEOUT): Promise<void> {
-    const startTime = Date.now();
-    while (Date.now() - startTime < timeout) {
-      if (await locator.isEnabled()) {
-        return;
-      }
-      await this.sleep(DEFAULT_INTERVAL);
-    }
-    throw new Error(`Element not enabled after ${timeout}ms`);
+    await this.waitForValue(() => locator.isEnabled(), (enabled) => enabled, {
+      timeout,
+      message: 'Element not enabled',
+      description: String(locator),
+      expected: true,
+    });
   }
 
   /**
    * Wait for element to be disabled
    */
   async waitForDisabled(locator: Locator, timeout: number = DEFAULT_TIMEOUT): Promise<void> {
-    const startTime = Date.now();
-    while (Date.now() - startTime < timeout) {
-      if (!(await locator.isEnabled())) {
-        return;
-      }
-      await this.sleep(DEFAULT_INTERVAL);
-    }
-    throw new Error(`Element not disabled after ${timeout}ms`);
+    await this.waitForValue(() => locator.isEnabled(), (enabled) => !enabled, {
+      timeout,
+      message: 'Element not disabled',
+      description: String(locator),
+      expected: false,
+    });
   }
 
   // ============================================================================
@@ -126,32 +172,36 @@ export class WaitHelpers {
 
   /**
    * Wait for custom condition to be true
+   * @throws WaitTimeoutError with the observed history on timeout
    */
   async waitForCondition(
     condition: () => Promise<boolean> | boolean,
     options: WaitOptions = {}
   ): Promise<void> {
-    const {
-      timeout = DEFAULT_TIMEOUT,
-      interval = DEFAULT_INTERVAL,
-      message = 'Condition not met',
-    } = options;
-
-    const startTime = Date.now();
+    await this.waitForValue(condition, (result) => Boolean(result), {
+      message: 'Condition not met',
+      expected: true,
+      ...options,
+    });
+  }
 
-    while (Date.now() - startTime < timeout) {
-      try {
-        const result = await condition();
-        if (result) {
-          return;
-        }
-      } catch {
-        // Condition threw, continue waiting
+  /**
+   * Wait until an observed value matches, returning the matching value
+   * @throws WaitTimeoutError with the observed history on timeout
+   */
+  async waitForValue<T>(
+    observe: () => Promise<T> | T,
+    matches: (value: T) => boolean,
+    options: WaitOptions = {}
+  ): Promise<T> {
+    try {
+      return await observeUntil(observe, matches, options);
+    } catch (error) {
+      if (error instanceof WaitTimeoutError) {
+        await this.attachDiagnostics(error);
       }
-      await this.sleep(interval);
+      throw error;
     }
-
-    throw new Error(`${message} after ${timeout}ms`);
   }
 
   /**
@@ -162,15 +212,15 @@ export class WaitHelpers {
     text: string | RegExp,
     timeout: number = DEFAULT_TIMEOUT
   ): Promise<void> {
-    await this.waitForCondition(
-      async () => {
-        const content = await locator.textContent();
-        if (typeof text === 'string') {
-          return content?.includes(text) ?? false;
-        }
-        return text.test(content ?? '');
-      },
-      { timeout, message: `Text "${text}" not found` }
+    await this.waitForValue(
+      () => locator.textContent(),
+      (content) => typeof text === 'string' ? content?.includes(text) ?? false : text.test(content ?? ''),
+      {
+        timeout,
+        message: `Text "${text}" not found`,
+        description: String(locator),
+        expected: typeof text === 'string' ? `text containing "${text}"` : text,
+      }
     );
   }
 
@@ -182,12 +232,15 @@ export class WaitHelpers {
     initialText: string,
     timeout: number = DEFAULT_TIMEOUT
   ): Promise<void> {
-    await this.waitForCondition(
-      async () => {
-        const content = await locator.textContent();
-        return content !== initialText;
-      },
-      { timeout, message: 'Text did not change' }
+    await this.waitForValue(
+      () => locator.textContent(),
+      (content) => content !== initialText,
+      {
+        timeout,
+        message: 'Text did not change',
+        description: String(locator),
+        expected: `text other than "${initialText}"`,
+      }
     );
   }
 
@@ -199,12 +252,10 @@ export class WaitHelpers {
     expectedCount: number,
     timeout: number = DEFAULT_TIMEOUT
   ): Promise<void> {
-    await this.waitForCondition(
-      async () => {
-        const count = await locator.count();
-        return count === expectedCount;
-      },
-      { timeout, message: `Expected ${expectedCount} elements` }
+    await this.waitForValue(
+      () => locator.count(),
+      (count) => count === expectedCount,
+      { timeout, message: `Expected ${expectedCount} elements`, description: String(locator), expected: expectedCount }
     );
   }
 
@@ -216,12 +267,15 @@ export class WaitHelpers {
     minCount: number,
     timeout: number = DEFAULT_TIMEOUT
   ): Promise<void> {
-    await this.waitForCondition(
-      async () => {
-        const count = await locator.count();
-        return count >= minCount;
-      },
-      { timeout, message: `Expected at least ${minCount} elements` }
+    await this.waitForValue(
+      () => locator.count(),
+      (count) => count >= minCount,
+      {
+        timeout,
+        message: `Expected at least ${minCount} elements`,
+        description: String(locator),
+        expected: `>= ${minCount}`,
+      }
     );
   }
 
@@ -234,16 +288,21 @@ export class WaitHelpers {
     value: string | RegExp,
     timeout: number = DEFAULT_TIMEOUT
   ): Promise<void> {
-    await this.waitForCondition(
-      async () => {
-        const attrValue = await locator.getAttribute(attribute);
+    await this.waitForValue(
+      () => locator.getAttribute(attribute),
+      (attrValue) => {
         if (attrValue === null) return false;
         if (typeof value === 'string') {
           return attrValue === value;
         }
         return value.test(attrValue);
       },
-      { timeout, message: `Attribute "${attribute}" did not match "${value}"` }
+      {
+        timeout,
+        message: `Attribute "${attribute}" did not match "${value}"`,
+        description: String(locator),
+        expected: value,
+      }
     );
   }
 
@@ -255,12 +314,15 @@ export class WaitHelpers {
     className: string,
     timeout: number = DEFAULT_TIMEOUT
   ): Promise<void> {
-    await this.waitForCondition(
-      async () => {
-        const classes = await locator.getAttribute('class');
-        return classes?.split(' ').includes(className) ?? false;
-      },
-      { timeout, message: `Class "${className}" not found` }
+    await this.waitForValue(
+      () => locator.getAttribute('class'),
+      (classes) => classes?.split(' ').includes(className) ?? false,
+      {
+        timeout,
+        message: `Class "${className}" not found`,
+        description: String(locator),
+        expected: `class list containing "${className}"`,
+      }
     );
   }
 
@@ -272,12 +334,15 @@ export class WaitHelpers {
     className: string,
     timeout: number = DEFAULT_TIMEOUT
   ): Promise<void> {
-    await this.waitForCondition(
-      async () => {
-        const classes = await locator.getAttribute('class');
-        return !(classes?.split(' ').includes(className) ?? false);
-      },
-      { timeout, message: `Class "${className}" still present` }
+    await this.waitForValue(
+      () => locator.getAttribute('class'),
+      (classes) => !(classes?.split(' ').includes(className) ?? false),
+      {
+        timeout,
+        message: `Class "${className}" still present`,
+        description: String(locator),
+        expected: `class list without "${className}"`,
+      }
     );
   }
 
@@ -361,14 +426,13 @@ export class WaitHelpers {
 
   /**
    * Wait with exponential backoff
+   * Returns false once attempts run out; rejects only when aborted.
    */
   async waitWithBackoff(
     condition: () => Promise<boolean>,
-    options: {
+    options: Omit<RetryPolicy<boolean>, 'attempts' | 'delay' | 'retryIf'> & {
       maxAttempts?: number;
       initialDelay?: number;
-      maxDelay?: number;
-      factor?: number;
     } = {}
   ): Promise<boolean> {
     const {
@@ -376,24 +440,25 @@ export class WaitHelpers {
       initialDelay = 100,
       maxDelay = 5000,
       factor = 2,
+      ...policy
     } = options;
 
-    let delay = initialDelay;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        if (await condition()) {
-          return true;
-        }
-      } catch {
-        // Continue trying
+    try {
+      return await runWithRetry(async () => Boolean(await condition()), {
+        backoff: 'exponential',
+        ...policy,
+        attempts: maxAttempts,
+        delay: initialDelay,
+        maxDelay,
+        factor,
+        retryIf: (met) => !met,
+      });
+    } catch (error) {
+      if (policy.signal?.aborted) {
+        throw error;
       }
-
-      await this.sleep(delay);
-      delay = Math.min(delay * factor, maxDelay);
+      return false;
     }
-
-    return false;
   }
 
   // ============================================================================
@@ -418,13 +483,40 @@ export class WaitHelpers {
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
+
+  /**
+   * Attach screenshot/DOM diagnostics for a timed out wait to the test info
+   */
+  private async attachDiagnostics(error: WaitTimeoutError): Promise<void> {
+    const { testInfo, screenshot = false, domSnapshot = false } = this.diagnostics;
+    if (!testInfo) return;
+
+    try {
+      if (screenshot) {
+        await testInfo.attach('wait-timeout-screenshot', {
+          body: await this.page.screenshot({ fullPage: true }),
+          contentType: 'image/png',
+        });
+        error.attachments.push('wait-timeout-screenshot');
+      }
+      if (domSnapshot) {
+        await testInfo.attach('wait-timeout-dom', {
+          body: await this.page.content(),
+          contentType: 'text/html',
+        });
+        error.attachments.push('wait-timeout-dom');
+      }
+    } catch {
+      // Page may already be closed
+    }
+  }
 }
 
 /**
  * Create WaitHelpers instance
  */
-export function createWaitHelpers(page: Page): WaitHelpers {
-  return new WaitHelpers(page);
+export function createWaitHelpers(page: Page, diagnostics?: WaitDiagnosticsOptions): WaitHelpers {
+  return new WaitHelpers(page, diagnostics);
 }
 
 // ============================================================================
@@ -433,70 +525,180 @@ export function createWaitHelpers(page: Page): WaitHelpers {
 
 /**
  * Poll until condition is true
+ * Polls at a fixed interval unless a backoff strategy is given.
+ * @throws WaitTimeoutError with the observed history on timeout
  */
 export async function poll<T>(
   fn: () => Promise<T> | T,
-  options: {
-    timeout?: number;
-    interval?: number;
+  options: WaitOptions & {
     validate?: (result: T) => boolean;
   } = {}
 ): Promise<T> {
-  const {
-    timeout = DEFAULT_TIMEOUT,
-    interval = DEFAULT_INTERVAL,
-    validate = (r) => Boolean(r),
-  } = options;
-
-  const startTime = Date.now();
-
-  while (Date.now() - startTime < timeout) {
-    try {
-      const result = await fn();
-      if (validate(result)) {
-        return result;
-      }
-    } catch {
-      // Continue polling
-    }
-    await sleep(interval);
-  }
-
-  throw new Error(`Polling timeout after ${timeout}ms`);
+  const { validate = (r) => Boolean(r), ...waitOptions } = options;
+  return observeUntil(fn, validate, { message: 'Polling timeout', ...waitOptions });
 }
 
 /**
  * Retry function with attempts
+ *
+ * @example
+ * await retry(() => api.get('/flaky'), {
+ *   attempts: 5,
+ *   delay: 200,
+ *   backoff: 'exponential',
+ *   jitter: true,
+ *   retryOn: [503, /ECONNRESET/],
+ * });
  */
 export async function retry<T>(
   fn: () => Promise<T>,
-  options: {
-    attempts?: number;
-    delay?: number;
+  options: RetryPolicy<T> & {
     onError?: (error: Error, attempt: number) => void;
   } = {}
 ): Promise<T> {
-  const { attempts = 3, delay = 1000, onError } = options;
+  const { onError, ...policy } = options;
 
-  let lastError: Error | undefined;
-
-  for (let attempt = 1; attempt <= attempts; attempt++) {
+  return runWithRetry(async (attempt) => {
     try {
       return await fn();
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      onError?.(lastError, attempt);
+      const normalized = error instanceof Error ? error : new Error(String(error));
+      onError?.(normalized, attempt);
+      throw normalized;
+    }
+  }, policy);
+}
 
-      if (attempt < attempts) {
-        await sleep(delay);
-      }
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Call observe until matches passes, recording each observation
+ */
+async function observeUntil<T>(
+  observe: () => Promise<T> | T,
+  matches: (value: T) => boolean,
+  options: WaitOptions
+): Promise<T> {
+  const {
+    timeout = DEFAULT_TIMEOUT,
+    interval = DEFAULT_INTERVAL,
+    message = 'Condition not met',
+    description,
+    expected,
+    ...backoff
+  } = options;
+
+  const history: WaitObservation<T>[] = [];
+  const startTime = Date.now();
+  let attempts = 0;
+  let matched = false;
+
+  const record = (observation: WaitObservation<T>) => {
+    history.push(observation);
+    if (history.length > MAX_HISTORY) {
+      history.shift();
+    }
+  };
+
+  try {
+    const value = await runWithRetry(
+      async (attempt) => {
+        attempts = attempt;
+        try {
+          const result = await observe();
+          record({ attempt, elapsed: Date.now() - startTime, value: result });
+          try {
+            matched = matches(result);
+          } catch {
+            matched = false;
+          }
+          return result;
+        } catch (error) {
+          record({
+            attempt,
+            elapsed: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+      },
+      { ...backoff, attempts: Infinity, delay: interval, maxDuration: timeout, retryIf: () => !matched }
+    );
+    if (matched) {
+      return value;
+    }
+  } catch (error) {
+    if (backoff.signal?.aborted) {
+      throw error;
+    }
+  }
+
+  throw new WaitTimeoutError<T>(message, timeout, Date.now() - startTime, attempts, history, expected, description);
+}
+
+function formatTimeoutMessage(
+  message: string,
+  timeout: number,
+  elapsed: number,
+  attempts: number,
+  history: WaitObservation[],
+  expected: unknown,
+  description: string | undefined
+): string {
+  const lines = [`${message} after ${timeout}ms`];
+
+  if (description) {
+    lines.push(`  Waiting on: ${description}`);
+  }
+  if (expected !== undefined) {
+    lines.push(`  Expected: ${typeof expected === 'string' ? expected : formatValue(expected)}`);
+  }
+
+  const last = history[history.length - 1];
+  if (last) {
+    lines.push(last.error !== undefined ? `  Last error: ${last.error}` : `  Last value: ${formatValue(last.value)}`);
+  }
+  lines.push(`  Attempts: ${attempts} in ${elapsed}ms`);
+
+  // Collapse consecutive identical observations
+  const changes: string[] = [];
+  let previous: string | undefined;
+  let repeat = 0;
+  for (const observation of history) {
+    const text = observation.error !== undefined ? `threw ${observation.error}` : formatValue(observation.value);
+    if (text === previous) {
+      repeat++;
+      continue;
     }
+    if (repeat > 0) changes[changes.length - 1] += ` (x${repeat + 1})`;
+    changes.push(`    +${observation.elapsed}ms ${text}`);
+    previous = text;
+    repeat = 0;
   }
+  if (repeat > 0) changes[changes.length - 1] += ` (x${repeat + 1})`;
 
-  throw lastError || new Error('Retry failed');
+  if (changes.length > 0) {
+    lines.push(`  Observed${attempts > history.length ? ` (last ${history.length})` : ''}:`, ...changes);
+  }
+
+  return lines.join('\n');
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function formatValue(value: unknown): string {
+  let text: string;
+  if (value instanceof RegExp || typeof value === 'function') {
+    text = String(value);
+  } else if (value === undefined) {
+    text = 'undefined';
+  } else {
+    try {
+      text = JSON.stringify(value) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+  }
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}...` : text;
 }
 
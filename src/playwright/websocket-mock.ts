@@ -0,0 +1,238 @@
+/**
+ * Playwright WebSocket Mock
+ * Script server frames and record client frames for WebSocket connections
+ */
+
+import type { Page, WebSocketRoute } from '@playwright/test';
+import type {
+  UrlFilter,
+  WebSocketFrame,
+  WebSocketMessageMatcher,
+  WebSocketMockOptions,
+} from '../types';
+import { getRouteRegistry, extendRouteHandle } from './route-registry';
+import type { RouteHandle } from './route-registry';
+import { describeUrlFilter, isSubset, matchesUrl, sleep } from './utils';
+
+const DEFAULT_WAIT_TIMEOUT = 5000;
+const POLL_INTERVAL = 50;
+// Close code for a server-side failure (RFC 6455); reasons are limited to 123 bytes
+const INTERNAL_ERROR_CODE = 1011;
+const MAX_REASON_LENGTH = 120;
+
+/**
+ * Handle to mocked WebSocket connections
+ */
+export interface WebSocketMock extends RouteHandle {
+  /** Number of connections opened so far */
+  readonly connections: number;
+  /** Frames in both directions, in order */
+  readonly frames: WebSocketFrame[];
+  /** Client frames, parsed as JSON where possible */
+  clientMessages<T = unknown>(): T[];
+  /** Send a frame from the server to every open connection (or just one) */
+  send(data: string | Buffer | object, connection?: number): void;
+  /** Wait until a client has connected and return the connection number */
+  waitForConnection(timeout?: number): Promise<number>;
+  /** Wait for a client frame matching the matcher */
+  waitForClientMessage(matcher?: WebSocketMessageMatcher, timeout?: number): Promise<WebSocketFrame>;
+  /** Close every open connection from the server side */
+  close(options?: { code?: number; reason?: string }): Promise<void>;
+  /** Close open connections; later connections go to the real server (same as dispose) */
+  stop(): Promise<void>;
+}
+
+/**
+ * Intercept WebSocket connections matching pattern
+ *
+ * Needs page.routeWebSocket (Playwright 1.48+). Without `passthrough` no real
+ * server is contacted and the script, `respond` and `send()` are the only
+ * source of server frames. A `respond` that throws closes that connection
+ * with code 1011 and the error message as the reason.
+ *
+ * @example
+ * const ws = await mockWebSocket(page, '/live', {
+ *   script: [
+ *     { data: { type: 'hello' } },
+ *     { data: { type: 'price', value: 42 }, delay: 500 },
+ *   ],
+ *   respond: (message) => (message === 'ping' ? 'pong' : undefined),
+ * });
+ * await page.click('#subscribe');
+ * await ws.waitForClientMessage({ type: 'subscribe', channel: 'prices' });
+ * ws.send({ type: 'price', value: 43 });
+ */
+export async function mockWebSocket(
+  page: Page,
+  pattern: UrlFilter,
+  options: WebSocketMockOptions = {}
+): Promise<WebSocketMock> {
+  if (typeof page.routeWebSocket !== 'function') {
+    throw new Error('WebSocket mocking requires page.routeWebSocket (Playwright 1.48 or later)');
+  }
+
+  const { script = [], respond, passthrough = false } = options;
+  const frames: WebSocketFrame[] = [];
+  const open = new Map<number, WebSocketRoute>();
+  let connections = 0;
+  let stopped = false;
+
+  const record = (connection: number, from: WebSocketFrame['from'], data: string | Buffer) => {
+    frames.push({ connection, from, data, timestamp: Date.now() });
+  };
+
+  const sendFrame = (connection: number, data: string | Buffer | object) => {
+    const ws = open.get(connection);
+    if (!ws) return;
+    const payload = typeof data === 'string' || Buffer.isBuffer(data) ? data : JSON.stringify(data);
+    ws.send(payload);
+    record(connection, 'server', payload);
+  };
+
+  const runScript = async (connection: number) => {
+    for (const step of script) {
+      if (step.delay) {
+        await sleep(step.delay);
+      }
+      if (!open.has(connection)) return;
+      sendFrame(connection, step.data);
+    }
+  };
+
+  await page.routeWebSocket(
+    (url: URL) => matchesUrl(url.href, pattern),
+    (ws: WebSocketRoute) => {
+      if (stopped) {
+        ws.connectToServer();
+        return;
+      }
+
+      const connection = ++connections;
+      open.set(connection, ws);
+
+      const server = passthrough ? ws.connectToServer() : null;
+      if (server) {
+        server.onMessage((message) => {
+          record(connection, 'server', message);
+          ws.send(message);
+        });
+      }
+
+      ws.onMessage(async (message) => {
+        record(connection, 'client', message);
+        server?.send(message);
+        if (!respond) return;
+
+        try {
+          const reply = await respond(toText(message), connection);
+          if (reply !== undefined) {
+            sendFrame(connection, reply);
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          open.delete(connection);
+          server?.close();
+          await ws
+            .close({ code: INTERNAL_ERROR_CODE, reason: reason.slice(0, MAX_REASON_LENGTH) })
+            .catch(() => undefined);
+        }
+      });
+
+      ws.onClose((code, reason) => {
+        open.delete(connection);
+        server?.close({ code, reason });
+      });
+
+      void runScript(connection);
+    }
+  );
+
+  const close = async (closeOptions: { code?: number; reason?: string } = {}) => {
+    const sockets = [...open.values()];
+    open.clear();
+    await Promise.all(sockets.map((ws) => ws.close(closeOptions)));
+  };
+
+  const routeHandle = getRouteRegistry(page).track('mockWebSocket', describeUrlFilter(pattern), async () => {
+    stopped = true;
+    await close();
+  });
+
+  return extendRouteHandle<WebSocketMock>(routeHandle, {
+    get connections() {
+      return connections;
+    },
+    get frames() {
+      return [...frames];
+    },
+    clientMessages<T = unknown>(): T[] {
+      return frames.filter((frame) => frame.from === 'client').map((frame) => parseFrame(frame.data) as T);
+    },
+    send(data, connection) {
+      const targets = connection !== undefined ? [connection] : [...open.keys()];
+      targets.forEach((target) => sendFrame(target, data));
+    },
+    async waitForConnection(timeout = DEFAULT_WAIT_TIMEOUT) {
+      const startTime = Date.now();
+      while (connections === 0) {
+        if (Date.now() - startTime >= timeout) {
+          throw new Error(
+            `No WebSocket connection matching ${describeUrlFilter(pattern)} was opened within ${timeout}ms`
+          );
+        }
+        await sleep(POLL_INTERVAL);
+      }
+      return connections;
+    },
+    async waitForClientMessage(matcher, timeout = DEFAULT_WAIT_TIMEOUT) {
+      const startTime = Date.now();
+      for (;;) {
+        const frame = frames.find(
+          (f) => f.from === 'client' && (matcher === undefined || matchesMessage(toText(f.data), matcher))
+        );
+        if (frame) {
+          return frame;
+        }
+        if (Date.now() - startTime >= timeout) {
+          const sent = frames.filter((f) => f.from === 'client').map((f) => `  ${toText(f.data)}`);
+          throw new Error(
+            `No client WebSocket frame matched within ${timeout}ms\n` +
+            (sent.length > 0 ? `Client frames:\n${sent.join('\n')}` : 'No client frames were sent')
+          );
+        }
+        await sleep(POLL_INTERVAL);
+      }
+    },
+    close,
+    stop: routeHandle.dispose,
+  });
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function toText(data: string | Buffer): string {
+  return typeof data === 'string' ? data : data.toString('utf-8');
+}
+
+function parseFrame(data: string | Buffer): unknown {
+  const text = toText(data);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function matchesMessage(text: string, matcher: WebSocketMessageMatcher): boolean {
+  if (typeof matcher === 'function') return matcher(text);
+  if (typeof matcher === 'string') return text.includes(matcher);
+  if (matcher instanceof RegExp) return matcher.test(text);
+
+  try {
+    return isSubset(JSON.parse(text), matcher);
+  } catch {
+    return false;
+  }
+}
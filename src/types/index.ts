@@ -6,6 +6,32 @@
 // Generator Types
 // ============================================================================
 
+/**
+ * Seeded random number generator exposing the same API as the random module
+ */
+export interface Rng {
+  /** Normalized 32-bit seed this generator was created with */
+  readonly seed: number;
+  /** Next float in [0, 1) */
+  next(): number;
+  randomInt(min: number, max: number): number;
+  randomFloat(min: number, max: number, decimals?: number): number;
+  randomString(length: number, charset?: string): string;
+  randomAlpha(length: number): string;
+  randomAlphanumeric(length: number): string;
+  randomHex(length: number): string;
+  randomUUID(): string;
+  randomBoolean(probability?: number): boolean;
+  randomElement<T>(array: T[]): T;
+  randomElements<T>(array: T[], count: number): T[];
+  shuffle<T>(array: T[]): T[];
+  randomLowercase(length: number): string;
+  randomUppercase(length: number): string;
+  randomNumeric(length: number): string;
+  /** Run a function with this generator as the active random source */
+  run<T>(fn: () => T): T;
+}
+
 export interface PasswordOptions {
   /** Minimum password length (default: 8) */
   length?: number;
@@ -21,6 +47,8 @@ export interface PasswordOptions {
   excludeChars?: string;
   /** Character types that must be included */
   mustInclude?: ('uppercase' | 'lowercase' | 'number' | 'symbol')[];
+  /** Random source to use instead of the global one */
+  rng?: Rng;
 }
 
 export interface PasswordStrength {
@@ -34,6 +62,8 @@ export interface PhoneOptions {
   country?: 'US' | 'UK' | 'CA' | 'AU' | string;
   /** Output format */
   format?: 'digits' | 'dashed' | 'dotted' | 'international' | 'national' | 'parentheses';
+  /** Random source to use instead of the global one */
+  rng?: Rng;
 }
 
 export interface PhoneComponents {
@@ -53,6 +83,8 @@ export interface EmailOptions {
   includeTimestamp?: boolean;
   /** Timestamp format */
   timestampFormat?: 'iso' | 'epoch' | 'compact';
+  /** Random source to use instead of the global one */
+  rng?: Rng;
 }
 
 export interface AddressOptions {
@@ -60,6 +92,8 @@ export interface AddressOptions {
   country?: 'US' | 'CA' | 'UK';
   /** Include apartment/unit number */
   includeApt?: boolean;
+  /** Random source to use instead of the global one */
+  rng?: Rng;
 }
 
 export interface Address {
@@ -76,6 +110,8 @@ export interface CardOptions {
   type?: 'visa' | 'mastercard' | 'amex' | 'discover';
   /** Generate valid Luhn checksum (default: true) */
   valid?: boolean;
+  /** Random source to use instead of the global one */
+  rng?: Rng;
 }
 
 export interface CardInfo {
@@ -98,9 +134,65 @@ export interface CSVOptions {
   encoding?: BufferEncoding;
   /** Skip empty lines (default: true) */
   skipEmptyLines?: boolean;
+  /** Quote character (default: '"') */
+  quote?: string;
+  /** Trim whitespace around unquoted fields (default: true) */
+  trim?: boolean;
+  /** Throw when a row has a different number of fields than the header (default: false) */
+  strictColumns?: boolean;
+}
+
+export type CSVColumnType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'email'
+  | 'enum'
+  | 'regex'
+  | 'custom';
+
+export interface CSVColumnSchema {
+  /** Column type (default: 'string') */
+  type?: CSVColumnType;
+  /** Value must be non-empty (default: false) */
+  required?: boolean;
+  /** Date format for type 'date', e.g. 'YYYY-MM-DD' (default: any parseable date) */
+  format?: string;
+  /** Allowed values for type 'enum' */
+  values?: string[];
+  /** Pattern for type 'regex': a RegExp or a key of PATTERNS */
+  pattern?: RegExp | string;
+  /** Minimum numeric value or date */
+  min?: number | Date;
+  /** Maximum numeric value or date */
+  max?: number | Date;
+  /** Custom predicate; return false or an error message to fail */
+  validate?: (value: string, row: Record<string, string>) => boolean | string;
+}
+
+/** Column name to schema (a bare type is shorthand for { type }) */
+export type CSVSchema = Record<string, CSVColumnSchema | CSVColumnType>;
+
+export interface CSVCellError {
+  /** 1-based data row number (header excluded) */
+  row: number;
+  column: string;
+  value: string;
+  /** Rule that failed, e.g. 'required', 'type', 'enum', 'min' */
+  rule: string;
+  message: string;
+}
+
+export interface CSVReadOptions extends CSVOptions {
+  /** Validate and coerce each row; throws CSVSchemaError on invalid cells */
+  schema?: CSVSchema;
 }
 
 export interface CSVValidationOptions extends CSVOptions {
+  /** Per-column schema */
+  schema?: CSVSchema;
   /** Expected number of data rows */
   expectedRowCount?: number;
   /** Expected column names */
@@ -116,10 +208,83 @@ export interface CSVValidationOptions extends CSVOptions {
 export interface CSVValidationResult {
   isValid: boolean;
   errors: string[];
+  /** Structured schema errors */
+  cellErrors: CSVCellError[];
   rowCount: number;
   columns: string[];
 }
 
+/** CSV or XLSX file path, or in-memory records */
+export type CSVSource = string | Record<string, unknown>[];
+
+export interface CSVCompareOptions extends CSVOptions {
+  /** Columns identifying a row; rows are matched by position when omitted */
+  keyColumns?: string[];
+  /** Columns excluded from the comparison */
+  ignoreColumns?: string[];
+  /** Compare numeric cells as numbers within this absolute difference (default: cells compared as text) */
+  numericTolerance?: number;
+  /** Normalize cells before comparing; true ignores case, accents and whitespace */
+  normalize?: boolean | ((value: string, column: string) => string);
+  /** Sheet name or 0-based index for .xlsx sources (default: first sheet) */
+  sheet?: string | number;
+  /** 1-based header row for .xlsx sources (default: 1) */
+  headerRow?: number;
+  /** Format for date cells in .xlsx sources (default: as readXLSX) */
+  dateFormat?: string;
+}
+
+export interface CSVCellDiff {
+  column: string;
+  actual: string;
+  expected: string;
+}
+
+export interface CSVRowDiff {
+  /** Key column values, or the 1-based row number when matching by position */
+  key: string;
+  actual: Record<string, string>;
+  expected: Record<string, string>;
+  cells: CSVCellDiff[];
+}
+
+export interface CSVComparisonResult {
+  isEqual: boolean;
+  /** Rows present in actual but not expected */
+  added: Record<string, string>[];
+  /** Rows present in expected but not actual */
+  removed: Record<string, string>[];
+  changed: CSVRowDiff[];
+  /** Expected columns missing from actual */
+  missingColumns: string[];
+  /** Actual columns not in expected */
+  extraColumns: string[];
+  /** Human-readable report */
+  summary: string;
+}
+
+export interface XLSXReadOptions {
+  /** Sheet name or 0-based index (default: first sheet) */
+  sheet?: string | number;
+  /** Header row contains column names (default: true) */
+  hasHeaders?: boolean;
+  /** 1-based row holding the header; rows above it are skipped (default: 1) */
+  headerRow?: number;
+  /** Skip empty rows (default: true) */
+  skipEmptyLines?: boolean;
+  /** Format for date cells using formatDate tokens (default: 'YYYY-MM-DD', with ' HH:mm:ss' when a time is set) */
+  dateFormat?: string;
+  /** Validate and coerce each row; throws CSVSchemaError on invalid cells */
+  schema?: CSVSchema;
+}
+
+export interface XLSXWriteOptions {
+  /** Sheet name when writing a single array of records (default: 'Sheet1') */
+  sheetName?: string;
+  /** Write a header row (default: true) */
+  hasHeaders?: boolean;
+}
+
 export interface DownloadOptions {
   /** Timeout in milliseconds (default: 30000) */
   timeout?: number;
@@ -129,24 +294,63 @@ export interface DownloadOptions {
   pollInterval?: number;
 }
 
+export interface DownloadCaptureOptions {
+  /** Directory to save into (default: helper directory) */
+  dir?: string;
+  /** Override the suggested filename */
+  filename?: string;
+  /** Timeout for the download event in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Minimum file size in bytes (default: 1) */
+  minSize?: number;
+  /** Maximum file size in bytes */
+  maxSize?: number;
+  /** Allowed extension(s), e.g. '.csv' or ['csv', 'xlsx'] */
+  extension?: string | string[];
+  /** Expected content type; strings match ignoring case and parameters such as charset */
+  contentType?: string | RegExp;
+  /** Parse content: 'auto' picks by extension (default: 'auto') */
+  parse?: 'auto' | 'csv' | 'json' | 'xlsx' | 'text' | 'none';
+  /** Options passed to the CSV parser */
+  csv?: CSVOptions;
+}
+
+export interface DownloadResult<T = unknown> {
+  /** Absolute path of the saved file */
+  path: string;
+  suggestedFilename: string;
+  url: string;
+  size: number;
+  extension: string;
+  /** Lowercased content type without parameters, from the response or inferred from the extension */
+  contentType: string;
+  /** Parsed content (rows for csv/xlsx, value for json, string for text, Buffer otherwise) */
+  content: T;
+}
+
 // ============================================================================
 // Playwright Types (re-exported for convenience when @playwright/test is available)
 // ============================================================================
 
-export interface ClickOptions {
-  /** Timeout in milliseconds */
+export interface SafeActionOptions {
+  /** Timeout per attempt in milliseconds (default: 5000) */
   timeout?: number;
+  /** Retry failed attempts (default: the safe-action policy's retry, or none) */
+  retry?: RetryPolicy;
+}
+
+export interface ClickOptions extends SafeActionOptions {
   /** Force click even if element is not visible */
   force?: boolean;
   /** Click position relative to element */
   position?: { x: number; y: number };
   /** Delay between mousedown and mouseup */
   delay?: number;
+  /** On failure, dismiss visible registered overlays and try again (default: false) */
+  dismissOverlays?: boolean;
 }
 
-export interface FillOptions {
-  /** Timeout in milliseconds */
-  timeout?: number;
+export interface FillOptions extends SafeActionOptions {
   /** Force fill even if element is not visible */
   force?: boolean;
 }
@@ -160,13 +364,217 @@ export interface ScrollOptions {
   inline?: 'start' | 'center' | 'end' | 'nearest';
 }
 
-export interface WaitOptions {
+export interface WaitOptions extends Pick<RetryPolicy, 'backoff' | 'factor' | 'maxDelay' | 'jitter' | 'signal'> {
   /** Timeout in milliseconds */
   timeout?: number;
-  /** Poll interval in milliseconds */
+  /** Poll interval in milliseconds, the initial delay when backing off */
   interval?: number;
   /** Error message on timeout */
   message?: string;
+  /** What is being waited on, e.g. a locator description */
+  description?: string;
+  /** Expected value, reported on timeout */
+  expected?: unknown;
+}
+
+export interface WaitObservation<T = unknown> {
+  /** 1-based attempt number */
+  attempt: number;
+  /** Milliseconds since the wait started */
+  elapsed: number;
+  /** Observed value (absent when the attempt threw) */
+  value?: T;
+  /** Error message when the attempt threw */
+  error?: string;
+}
+
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential';
+
+/**
+ * Decides whether a failure is retried:
+ * an Error class, a message pattern, an HTTP status or a predicate
+ */
+export type RetryCondition =
+  | (abstract new (...args: never[]) => Error)
+  | RegExp
+  | number
+  | ((error: unknown, attempt: number) => boolean);
+
+export interface RetryContext<T = unknown> {
+  /** 1-based attempt that just failed */
+  attempt: number;
+  /** Error thrown by the attempt (absent for retried results) */
+  error?: unknown;
+  /** Result returned by the attempt when retried by status or retryIf */
+  result?: T;
+  /** Delay before the next attempt in milliseconds */
+  delay: number;
+  /** Milliseconds since the first attempt started */
+  elapsed: number;
+}
+
+export interface RetryPolicy<T = unknown> {
+  /** Maximum number of attempts (default: 3) */
+  attempts?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  delay?: number;
+  /** How the delay grows between retries (default: 'fixed') */
+  backoff?: BackoffStrategy;
+  /** Growth factor for exponential backoff (default: 2) */
+  factor?: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelay?: number;
+  /** Randomize delays: true for full jitter, or the fraction of the delay to randomize (default: false) */
+  jitter?: boolean | number;
+  /** Give up once this many milliseconds have passed */
+  maxDuration?: number;
+  /** Only retry failures matching one of these conditions (default: any error) */
+  retryOn?: RetryCondition | RetryCondition[];
+  /** Retry when a successful result matches */
+  retryIf?: (result: T) => boolean;
+  /** Abort between attempts */
+  signal?: AbortSignal;
+  /** Called before each attempt */
+  onAttempt?: (attempt: number) => void | Promise<void>;
+  /** Called after a failed attempt, before waiting */
+  onRetry?: (context: RetryContext<T>) => void | Promise<void>;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema (draft-07 subset)
+ * Supported formats: email, uri, uuid, date, date-time, ipv4
+ */
+export interface JsonSchema {
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  patternProperties?: Record<string, JsonSchema>;
+  minProperties?: number;
+  maxProperties?: number;
+  // Arrays
+  items?: JsonSchema | JsonSchema[];
+  additionalItems?: boolean | JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  contains?: JsonSchema;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // Composition
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  // Annotations (ignored)
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: unknown[];
+}
+
+export interface JsonSchemaValidationError {
+  /** JSONPath-style location, e.g. $.items[3].price */
+  path: string;
+  /** Failed keyword, e.g. 'type' or 'required' */
+  keyword: string;
+  /** Full message including the path */
+  message: string;
+}
+
+export interface JsonSchemaValidationResult {
+  isValid: boolean;
+  errors: JsonSchemaValidationError[];
+}
+
+export type ApiResponseType = 'auto' | 'json' | 'text' | 'buffer';
+
+export type ApiAuth =
+  | {
+      type: 'bearer';
+      /** Static token; fetched with refresh on first use when omitted */
+      token?: string;
+      /** Fetch a new token; called once and the request replayed on a 401 */
+      refresh?: () => Promise<string>;
+    }
+  | { type: 'basic'; username: string; password: string }
+  | {
+      type: 'apiKey';
+      key: string;
+      /** Header name (default: 'X-API-Key') */
+      header?: string;
+    };
+
+export interface ApiRequestConfig {
+  method: string;
+  /** Absolute URL or URL relative to the request context */
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+}
+
+export type ApiRequestInterceptor = (
+  request: ApiRequestConfig
+) => ApiRequestConfig | void | Promise<ApiRequestConfig | void>;
+
+export type ApiResponseInterceptor = (
+  response: ApiResponse
+) => ApiResponse | void | Promise<ApiResponse | void>;
+
+export interface ApiClientOptions {
+  /** Prefix for relative request URLs */
+  baseURL?: string;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Authentication strategy */
+  auth?: ApiAuth;
+  /** Called in order before each request; may return a modified config */
+  requestInterceptors?: ApiRequestInterceptor[];
+  /** Called in order after each response; may return a modified response */
+  responseInterceptors?: ApiResponseInterceptor[];
+  /** Retry policy applied to every request (default: no retries) */
+  retry?: RetryPolicy;
+  /** Throw ApiError for non-2xx responses (default: false) */
+  throwOnError?: boolean;
+  /** How response bodies are decoded; 'auto' uses the content type (default: 'auto') */
+  responseType?: ApiResponseType;
+}
+
+export interface ApiResponse<T = unknown> {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  /** True for 2xx statuses */
+  ok: boolean;
+  /** Response headers (lower-cased names) */
+  headers: Record<string, string>;
+  /** Decoded body: parsed JSON, string or Buffer depending on responseType */
+  body: T;
+  timing: {
+    /** Epoch milliseconds when the request started */
+    startTime: number;
+    /** Milliseconds until the body was read, including retries */
+    duration: number;
+  };
 }
 
 export interface RequestOptions {
@@ -202,3 +610,588 @@ export interface MockResponse {
   contentType?: string;
 }
 
+export interface MockErrorRule {
+  /** HTTP method to fail, e.g. 'POST' (default: any) */
+  method?: string;
+  /** Fail only collection or item requests (default: both) */
+  target?: 'collection' | 'item';
+  /** Status code to return */
+  status: number;
+  /** Response body (default: { error: 'Injected error' }) */
+  body?: string | object;
+  /** Number of requests to fail before the rule expires (default: unlimited) */
+  times?: number;
+  /** Probability of failing a matching request, 0-1 (default: 1) */
+  probability?: number;
+}
+
+export interface MockResourceOptions<T extends Record<string, unknown> = Record<string, unknown>> extends RouteOptions {
+  /** Initial rows */
+  seed?: T[];
+  /** Field holding the row id (default: 'id') */
+  idField?: string;
+  /** Create an id for POSTed rows without one (default: max numeric id + 1) */
+  generateId?: (rows: T[]) => string | number;
+  /** Query param for the page number, 1-based (default: 'page') */
+  pageParam?: string;
+  /** Query param for the page size (default: 'limit') */
+  limitParam?: string;
+  /** Query param for the sort field (default: 'sort') */
+  sortParam?: string;
+  /** Query param for the sort order 'asc' | 'desc' (default: 'order') */
+  orderParam?: string;
+  /** Wrap list responses as { data, total, page, limit } (default: false, uses X-Total-Count header) */
+  envelope?: boolean;
+  /** Error injection rules */
+  errors?: MockErrorRule[];
+  /** Delay before every response in milliseconds */
+  latency?: number;
+  /** Generator for probabilistic error rules, kept apart from the global seed (default: unseeded) */
+  rng?: Rng;
+}
+
+// ============================================================================
+// Network Recording Types
+// ============================================================================
+
+/** URL filter: substring, regex or predicate */
+export type UrlFilter = string | RegExp | ((url: string) => boolean);
+
+export interface HarEntry {
+  startedDateTime: string;
+  /** Total time in milliseconds */
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    postData?: string;
+    /** SHA-256 of the request body, used for body matching */
+    bodyHash?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+}
+
+export interface HarFile {
+  version: string;
+  createdAt: string;
+  entries: HarEntry[];
+}
+
+export interface HarMatchOptions {
+  /** Match on HTTP method (default: true) */
+  matchMethod?: boolean;
+  /** Ignore the query string entirely (default: false) */
+  ignoreQuery?: boolean;
+  /** Query params to drop before matching, e.g. cache busters */
+  ignoreQueryParams?: string[];
+  /** Match on request body hash (default: false) */
+  matchBody?: boolean;
+}
+
+export interface HarRecordOptions {
+  /** Only record requests whose URL matches */
+  filter?: UrlFilter;
+  /** Only record these resource types (default: fetch, xhr) */
+  resourceTypes?: string[];
+}
+
+export interface HarReplayOptions extends HarMatchOptions, RouteOptions {
+  /** Only replay requests whose URL matches */
+  filter?: UrlFilter;
+  /** Only replay these resource types; others fall back (default: fetch, xhr) */
+  resourceTypes?: string[];
+  /** What to do with unmatched requests (default: 'fallback') */
+  notFound?: 'abort' | 'fallback' | '404';
+}
+
+export interface HarReplayReport {
+  /** Number of requests served from the HAR file */
+  served: number;
+  /** Requests that had no matching entry */
+  unmatched: Array<{ method: string; url: string }>;
+  /** Entries that were never served */
+  unused: Array<{ method: string; url: string }>;
+}
+
+// ============================================================================
+// GraphQL Types
+// ============================================================================
+
+export interface GraphQLErrorEntry {
+  message: string;
+  path?: Array<string | number>;
+  locations?: Array<{ line: number; column: number }>;
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLResponseBody<T = unknown> {
+  data?: T | null;
+  errors?: GraphQLErrorEntry[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLOperation {
+  /** Operation name from the request, or parsed from the query */
+  operationName: string | null;
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+export interface GraphQLMatchOptions {
+  /** Endpoint URL filter (default: '/graphql') */
+  endpoint?: UrlFilter;
+  /** Variables to match: a subset of the request variables or a predicate */
+  variables?: Record<string, unknown> | ((variables: Record<string, unknown>) => boolean);
+}
+
+export interface GraphQLMockOptions extends GraphQLMatchOptions {
+  /** HTTP status of the mocked response (default: 200) */
+  status?: number;
+  /** Only mock the first N matching operations (default: unlimited) */
+  times?: number;
+  /** Delay before responding in milliseconds (default: 0) */
+  delay?: number;
+  /** 'context' mocks the operation for every page in the browser context (default: 'page') */
+  scope?: RouteScope;
+}
+
+export type GraphQLMockResult =
+  | GraphQLResponseBody
+  | ((operation: GraphQLOperation) => GraphQLResponseBody | Promise<GraphQLResponseBody>);
+
+export interface GraphQLWaitOptions extends GraphQLMatchOptions {
+  /** Timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Throw GraphQLError when the response contains errors (default: false) */
+  failOnErrors?: boolean;
+}
+
+export interface GraphQLCapture<T = unknown> {
+  operation: GraphQLOperation;
+  /** HTTP status of the response */
+  status: number;
+  data: T | null;
+  errors: GraphQLErrorEntry[];
+}
+
+// ============================================================================
+// Network Recorder Types
+// ============================================================================
+
+export interface RecordedRequest {
+  /** 1-based order in which the request was issued */
+  id: number;
+  method: string;
+  url: string;
+  resourceType: string;
+  headers: Record<string, string>;
+  postData?: string;
+  /** 'pending' until the request finishes or fails */
+  state: 'pending' | 'finished' | 'failed';
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  /** Epoch milliseconds when the request started */
+  startTime: number;
+  /** Milliseconds until the response ended or the request failed */
+  duration?: number;
+  /** Failure reason, e.g. 'net::ERR_CONNECTION_REFUSED' */
+  failure?: string;
+}
+
+/** Substring or regex of the raw body, a subset of the JSON body, or a predicate */
+export type RequestBodyMatcher =
+  | string
+  | RegExp
+  | Record<string, unknown>
+  | ((postData: string | undefined) => boolean);
+
+export type RequestMatcher =
+  | {
+      method?: string;
+      url?: UrlFilter;
+      body?: RequestBodyMatcher;
+      status?: number;
+      resourceType?: string;
+      state?: RecordedRequest['state'];
+    }
+  | ((request: RecordedRequest) => boolean);
+
+export interface NetworkRecorderOptions {
+  /** Only record requests whose URL matches */
+  filter?: UrlFilter;
+  /** Only record these resource types (default: all) */
+  resourceTypes?: string[];
+}
+
+export interface NetworkLog {
+  startedAt: string;
+  stoppedAt?: string;
+  requests: RecordedRequest[];
+}
+
+// ============================================================================
+// Network Throttling Types
+// ============================================================================
+
+export type NetworkProfileName = 'slow-3g' | 'fast-3g' | '4g' | 'wifi' | 'offline';
+
+export interface NetworkConditions {
+  /** Download bandwidth in kilobits per second (0 or less: unlimited) */
+  downloadKbps: number;
+  /** Upload bandwidth in kilobits per second (0 or less: unlimited) */
+  uploadKbps: number;
+  /** Added round-trip latency in milliseconds */
+  latency: number;
+  /** Fail every request (default: false) */
+  offline?: boolean;
+}
+
+export interface ThrottleOptions extends RouteOptions {
+  /** Only throttle requests whose URL matches (forces route mode) */
+  pattern?: UrlFilter;
+  /** 'cdp' needs Chromium; 'auto' falls back to route shaping elsewhere (default: 'auto') */
+  mode?: 'auto' | 'cdp' | 'route';
+}
+
+// ============================================================================
+// Fault Injection Types
+// ============================================================================
+
+export type NetworkErrorCode =
+  | 'aborted'
+  | 'accessdenied'
+  | 'addressunreachable'
+  | 'blockedbyclient'
+  | 'blockedbyresponse'
+  | 'connectionaborted'
+  | 'connectionclosed'
+  | 'connectionfailed'
+  | 'connectionrefused'
+  | 'connectionreset'
+  | 'internetdisconnected'
+  | 'namenotresolved'
+  | 'timedout'
+  | 'failed';
+
+export interface FaultCondition {
+  /** HTTP method to fault, e.g. 'POST' (default: any) */
+  method?: string;
+  /** Chance of triggering per matching call, 0-1 (default: 1) */
+  probability?: number;
+  /** Only trigger on these 1-based call numbers among matching requests */
+  nth?: number | number[];
+  /** Stop after triggering this many times (default: unlimited) */
+  times?: number;
+}
+
+export type FaultRule = FaultCondition & (
+  | { type: 'status'; status: number; body?: string | object; headers?: Record<string, string> }
+  | { type: 'abort'; errorCode?: NetworkErrorCode }
+  | { type: 'hang' }
+  | {
+      type: 'truncate';
+      /** Bytes of the real body to keep (default: half of it) */
+      bytes?: number;
+    }
+  | { type: 'latency'; min: number; max: number }
+);
+
+export type FaultType = FaultRule['type'];
+
+export interface FaultInjectionOptions extends RouteOptions {
+  /** Seed for probabilities and latencies (default: a fresh seed per call) */
+  seed?: number | string;
+}
+
+export interface FaultEvent {
+  /** Index of the rule that fired */
+  rule: number;
+  type: FaultType;
+  method: string;
+  url: string;
+  /** 1-based number of the matching call */
+  call: number;
+}
+
+export interface FaultSummary {
+  /** Number of requests that matched the pattern */
+  calls: number;
+  triggered: FaultEvent[];
+  byType: Partial<Record<FaultType, number>>;
+  /** Human-readable summary */
+  text: string;
+}
+
+// ============================================================================
+// Route Handle Types
+// ============================================================================
+
+export type RouteScope = 'page' | 'context';
+
+export interface RouteOptions {
+  /** Remove the handler after it has handled this many requests (default: unlimited) */
+  times?: number;
+  /** 'context' intercepts requests from every page in the browser context (default: 'page') */
+  scope?: RouteScope;
+}
+
+export interface RouteHandleInfo {
+  id: number;
+  /** Helper that registered the handler, e.g. 'mockResponse' */
+  kind: string;
+  pattern: string;
+  scope: RouteScope;
+  /** Requests handled so far */
+  calls: number;
+  times?: number;
+}
+
+// ============================================================================
+// Session State Types
+// ============================================================================
+
+export interface SessionCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /** Unix time in seconds, -1 for session cookies */
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+export interface IndexedDBIndexSnapshot {
+  name: string;
+  keyPath: string | string[];
+  unique: boolean;
+  multiEntry: boolean;
+}
+
+export interface IndexedDBStoreSnapshot {
+  name: string;
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+  indexes: IndexedDBIndexSnapshot[];
+  /** Records in key order; values must be JSON-serializable to survive a save */
+  entries: Array<{ key: unknown; value: unknown }>;
+}
+
+export interface IndexedDBSnapshot {
+  name: string;
+  version: number;
+  stores: IndexedDBStoreSnapshot[];
+}
+
+export interface OriginStorageSnapshot {
+  origin: string;
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+  indexedDB: IndexedDBSnapshot[];
+}
+
+export interface SessionState {
+  version: string;
+  savedAt: string;
+  cookies: SessionCookie[];
+  origins: OriginStorageSnapshot[];
+}
+
+export interface SessionStateOptions {
+  /** Passphrase for AES-256-GCM encryption at rest (default: stored as plain JSON) */
+  encryptionKey?: string;
+  /** Include IndexedDB databases (default: true) */
+  indexedDB?: boolean;
+}
+
+// ============================================================================
+// WebSocket / SSE Mock Types
+// ============================================================================
+
+export interface WebSocketScriptStep {
+  /** Frame to send; objects are sent as JSON */
+  data: string | object;
+  /** Wait this long after the previous step, in ms (default: 0) */
+  delay?: number;
+}
+
+export interface WebSocketMockOptions {
+  /** Frames sent to each client after it connects, in order */
+  script?: WebSocketScriptStep[];
+  /** Reply to a client frame; return undefined to send nothing */
+  respond?: (message: string, connection: number) => string | object | undefined | Promise<string | object | undefined>;
+  /** Also connect to the real server and forward frames both ways (default: false) */
+  passthrough?: boolean;
+}
+
+export interface WebSocketFrame {
+  /** 1-based connection number */
+  connection: number;
+  from: 'client' | 'server';
+  data: string | Buffer;
+  timestamp: number;
+}
+
+/** Substring, RegExp, JSON subset or predicate on the text of a frame */
+export type WebSocketMessageMatcher =
+  | string
+  | RegExp
+  | Record<string, unknown>
+  | ((message: string) => boolean);
+
+export interface SSEEvent {
+  /** Event payload; objects are sent as JSON */
+  data: string | object;
+  /** Event type for addEventListener (default: 'message') */
+  event?: string;
+  id?: string;
+  /** Wait this long after the previous event, in ms (default: 0) */
+  delay?: number;
+}
+
+export interface SSEMockOptions extends RouteOptions {
+  /** Extra response headers */
+  headers?: Record<string, string>;
+  /** Reconnection time advertised to the client between batches, in ms (default: 1) */
+  retry?: number;
+}
+
+// ============================================================================
+// Form Fill Types
+// ============================================================================
+
+/** Values keyed by field name (or id/label); booleans drive checkboxes */
+export type FormValues = Record<string, string | boolean>;
+
+export type FormFieldKind =
+  | 'email'
+  | 'tel'
+  | 'password'
+  | 'name'
+  | 'given-name'
+  | 'family-name'
+  | 'username'
+  | 'organization'
+  | 'street-address'
+  | 'address-line2'
+  | 'address-level2'
+  | 'address-level1'
+  | 'postal-code'
+  | 'country'
+  | 'cc-name'
+  | 'cc-number'
+  | 'cc-exp'
+  | 'cc-exp-month'
+  | 'cc-exp-year'
+  | 'cc-csc'
+  | 'bday'
+  | 'url'
+  | 'number'
+  | 'date'
+  | 'checkbox'
+  | 'radio'
+  | 'text';
+
+export interface FillFormOptions {
+  /** Fixed values for some fields when auto-filling */
+  overrides?: FormValues;
+  /** Fields to leave untouched (name, id, label or kind) */
+  skip?: string[];
+  /** Country for address and phone generators (default: 'US') */
+  country?: 'US' | 'CA' | 'UK';
+  /** Also check checkboxes that are not required, e.g. newsletter opt-ins (default: false) */
+  checkOptional?: boolean;
+  /** Seeded generator for reproducible values */
+  rng?: Rng;
+}
+
+// ============================================================================
+// Safe Action Types
+// ============================================================================
+
+export type SafeAction = 'click' | 'fill' | 'select' | 'check' | 'uncheck';
+
+export interface ElementState {
+  /** At least one element matches the locator */
+  attached: boolean;
+  /** Number of matching elements (more than 1 fails strict mode) */
+  count: number;
+  visible: boolean;
+  enabled: boolean;
+  /** Element found at the target's center instead of the target, e.g. 'div#cookie-banner.overlay' */
+  coveredBy?: string;
+}
+
+export interface ActionResult {
+  ok: boolean;
+  action: SafeAction;
+  /** Locator description */
+  target: string;
+  /** Error from the last attempt */
+  error?: Error;
+  /** Element state captured after the last failed attempt */
+  state?: ElementState;
+  /** Total time including retries, in ms */
+  duration: number;
+  /** Attempts made after the first one */
+  retries: number;
+  /** Registered overlays dismissed along the way (clickSafe with dismissOverlays) */
+  dismissed?: string[];
+}
+
+export interface CoveringElement {
+  /** Selector suggestions for the covering element, best first */
+  selectors: string[];
+  /** Short description, e.g. 'div#cookie-banner.overlay' */
+  description: string;
+  /** Start of the element's text */
+  text: string;
+}
+
+export interface ClickabilityReport {
+  clickable: boolean;
+  /** First problem found, in the order listed */
+  reason?: 'not-attached' | 'multiple-matches' | 'hidden' | 'disabled' | 'covered';
+  state: ElementState;
+  /** Center point that was hit-tested, in viewport coordinates */
+  point?: { x: number; y: number };
+  /** Element receiving clicks at the center point instead of the target */
+  coveredBy?: CoveringElement;
+}
+
+// ============================================================================
+// Auto-Dismiss Types
+// ============================================================================
+
+/** 'locator-handler' uses page.addLocatorHandler; 'polling' checks visibility on a timer */
+export type AutoDismissMode = 'locator-handler' | 'polling';
+
+export interface AutoDismissOptions {
+  /** Stop after this many dismissals (default: unlimited) */
+  times?: number;
+  /** Don't wait for the popup to hide after the action runs (default: false) */
+  noWaitAfter?: boolean;
+  /** Poll even when page.addLocatorHandler is available (default: false) */
+  polling?: boolean;
+  /** Visibility check interval in polling mode, in ms (default: 250) */
+  pollInterval?: number;
+}
+
+export interface AutoDismissStats {
+  name: string;
+  mode: AutoDismissMode;
+  /** Times the action ran successfully */
+  fired: number;
+  /** Times the action threw */
+  failures: number;
+  active: boolean;
+}